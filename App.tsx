@@ -1,13 +1,19 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { SetupForm } from './components/SetupForm';
 import { ResultsDashboard } from './components/ResultsDashboard';
 import { runAnalysis } from './services/geminiService';
-import type { AnalysisResult, AppConfig, SavedReport, Task, Session, ApiKeys } from './types';
+import { createRunController, type RunController } from './services/runController';
+import { createRunCheckpoint, saveCheckpointResponse, completeRunCheckpoint, deleteRunCheckpoint, fetchInterruptedRuns, loadRunCheckpoint, type CheckpointKey } from './services/runCheckpoints';
+import type { AnalysisResult, AppConfig, SavedReport, Task, Session, ApiKeys, InterruptedRun, ProviderResponse, PriceTable } from './types';
+import { defaultPriceTable, mergePriceTable } from './services/pricing';
+import { createResponseCache } from './services/responseCache';
 import { LoadingStatus } from './components/LoadingSpinner';
 import { SavedReportsList } from './components/SavedReportsList';
+import { InterruptedRunsList } from './components/InterruptedRunsList';
 import { ReportViewer } from './components/ReportViewer';
 import { generateHtmlReport, createHostedReport } from './utils/exportUtils';
 import { supabase } from './supabase';
+import { credentialColumns, resolveJudge, resolveModels } from './services/providers';
 import { Auth } from './components/Auth';
 import { Settings } from './components/Settings';
 
@@ -110,14 +116,20 @@ const App: React.FC = () => {
   const [view, setView] = useState<'app' | 'settings'>('app');
   const [apiKeys, setApiKeys] = useState<ApiKeys>({});
   const [keysLoaded, setKeysLoaded] = useState(false);
+  const [priceTable, setPriceTable] = useState<PriceTable>(defaultPriceTable);
 
   const [appConfig, setAppConfig] = useState<AppConfig | null>(null);
   const [results, setResults] = useState<AnalysisResult[] | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const [wasCancelled, setWasCancelled] = useState<boolean>(false);
+  const runControllerRef = useRef<RunController | null>(null);
 
   const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [interruptedRuns, setInterruptedRuns] = useState<InterruptedRun[]>([]);
   const [viewingReportHtml, setViewingReportHtml] = useState<string | null>(null);
   const [sharingReport, setSharingReport] = useState<{ reportId: string, isSharing: boolean, link: string | null, error: string | null } | null>(null);
 
@@ -137,22 +149,19 @@ const App: React.FC = () => {
   useEffect(() => {
     if (session) {
       setKeysLoaded(false);
-      supabase.from('profiles').select('gemini, openai, perplexity, copilotKey, copilotEndpoint').eq('id', session.user.id).single()
+      supabase.from('profiles').select<string, ApiKeys>(credentialColumns).eq('id', session.user.id).single()
         .then(({ data, error }) => {
           if (data) {
-            setApiKeys({
-              gemini: data.gemini,
-              openai: data.openai,
-              perplexity: data.perplexity,
-              copilotKey: data.copilotKey,
-              copilotEndpoint: data.copilotEndpoint,
-            });
+            setApiKeys(data);
           } else if (error && error.code !== 'PGRST116') { // Ignore 'exact one row' error for new users
             console.error("Error fetching API keys:", error);
           }
           setKeysLoaded(true);
         });
 
+      supabase.from('profiles').select('price_table').eq('id', session.user.id).single()
+        .then(({ data }) => setPriceTable(mergePriceTable(data?.price_table)));
+
       supabase.from('reports').select('id, created_at, clientName, htmlContent, shareableLink').eq('user_id', session.user.id).order('created_at', { ascending: false })
         .then(({ data, error }) => {
           if (error) {
@@ -163,10 +172,16 @@ const App: React.FC = () => {
             setSavedReports(reports);
           }
         });
+
+      fetchInterruptedRuns(session.user.id)
+        .then(setInterruptedRuns)
+        .catch(error => console.error("Error fetching interrupted runs:", error));
     } else {
       setSavedReports([]);
+      setInterruptedRuns([]);
       setApiKeys({});
       setKeysLoaded(false);
+      setPriceTable(defaultPriceTable);
     }
   }, [session]);
 
@@ -174,23 +189,103 @@ const App: React.FC = () => {
     setTasks(updatedTasks);
   }, []);
 
-  const handleStartAnalysis = useCallback(async (config: Omit<AppConfig, 'apiKeys'>) => {
+  // Runs (or resumes) an analysis. Finished responses are checkpointed as they come in; checkpoint
+  // failures are logged but never stop the run.
+  const executeRun = useCallback(async (fullConfig: AppConfig, checkpoint?: { runId: string; completed: Map<CheckpointKey, ProviderResponse> }) => {
     setIsLoading(true);
     setError(null);
     setResults(null);
-    const fullConfig: AppConfig = { ...config, apiKeys };
     setAppConfig(fullConfig);
     setTasks([]);
+    setIsPaused(false);
+    setIsCancelling(false);
+    setWasCancelled(false);
+    const controller = createRunController();
+    runControllerRef.current = controller;
+
+    let runId = checkpoint?.runId;
+    if (!runId && session) {
+      runId = await createRunCheckpoint(session.user.id, fullConfig)
+        .catch(e => { console.error("Error creating run checkpoint:", e); return undefined; });
+    }
+    const onResponse = (promptIndex: number, response: ProviderResponse) => {
+      if (!runId) return;
+      saveCheckpointResponse(runId, promptIndex, response)
+        .catch(e => console.error("Error saving checkpoint:", e));
+    };
+
     try {
-      const analysisResults = await runAnalysis(fullConfig, handleProgressUpdate);
-      setResults(analysisResults);
+      const cache = session ? createResponseCache(session.user.id, fullConfig.cache) : undefined;
+      const analysisResults = await runAnalysis(fullConfig, handleProgressUpdate, { controller, completedResponses: checkpoint?.completed, onResponse, cache });
+      if (controller.signal.aborted) {
+        setWasCancelled(true);
+        // Nothing finished before the cancel, so there is nothing to show.
+        setResults(analysisResults.length > 0 ? analysisResults : null);
+        if (analysisResults.length === 0) setAppConfig(null);
+        // The cancelled run stays resumable from the start screen.
+        if (runId && session) {
+          fetchInterruptedRuns(session.user.id)
+            .then(setInterruptedRuns)
+            .catch(e => console.error("Error fetching interrupted runs:", e));
+        }
+      } else {
+        setResults(analysisResults);
+        if (runId) {
+          const finishedRunId = runId;
+          await completeRunCheckpoint(finishedRunId).catch(e => console.error("Error completing run checkpoint:", e));
+          setInterruptedRuns(prev => prev.filter(r => r.id !== finishedRunId));
+        }
+      }
     } catch (e) {
       console.error(e);
       setError(e instanceof Error ? e.message : 'An unknown error occurred during analysis.');
     } finally {
+      runControllerRef.current = null;
       setIsLoading(false);
     }
-  }, [apiKeys, handleProgressUpdate]);
+  }, [session, handleProgressUpdate]);
+
+  const handleStartAnalysis = useCallback(async (config: Omit<AppConfig, 'apiKeys'>) => {
+    const fullConfig: AppConfig = { ...config, models: resolveModels(config.models, apiKeys), judge: resolveJudge(config.judge, apiKeys), apiKeys };
+    await executeRun(fullConfig);
+  }, [apiKeys, executeRun]);
+
+  const handleResumeRun = useCallback(async (runId: string) => {
+    try {
+      const { config, completed } = await loadRunCheckpoint(runId);
+      await executeRun({ ...config, apiKeys }, { runId, completed });
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Could not load the interrupted run.');
+    }
+  }, [apiKeys, executeRun]);
+
+  const handleDiscardRun = useCallback(async (runId: string) => {
+    if (confirm('Discard this interrupted run? Its saved responses will be deleted.')) {
+      try {
+        await deleteRunCheckpoint(runId);
+        setInterruptedRuns(prev => prev.filter(r => r.id !== runId));
+      } catch (e) {
+        alert(`Error discarding run: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      }
+    }
+  }, []);
+
+  const handlePauseAnalysis = () => {
+    runControllerRef.current?.pause();
+    setIsPaused(true);
+  };
+
+  const handleResumeAnalysis = () => {
+    runControllerRef.current?.resume();
+    setIsPaused(false);
+  };
+
+  const handleCancelAnalysis = () => {
+    runControllerRef.current?.cancel();
+    setIsPaused(false);
+    setIsCancelling(true);
+  };
 
   const handleReset = () => {
     setAppConfig(null);
@@ -198,6 +293,7 @@ const App: React.FC = () => {
     setIsLoading(false);
     setError(null);
     setTasks([]);
+    setWasCancelled(false);
     setViewingReportHtml(null);
     setView('app');
   };
@@ -274,13 +370,22 @@ const App: React.FC = () => {
 
   const mainContent = () => {
     if (session && view === 'settings') {
-        return <Settings user={session.user} onClose={() => { setView('app'); }} />;
+        return <Settings user={session.user} onClose={() => { setView('app'); }} onPriceTableSaved={setPriceTable} />;
     }
     if (viewingReportHtml) {
       return <ReportViewer htmlContent={viewingReportHtml} onClose={handleReset} />;
     }
     if (isLoading) {
-      return <LoadingStatus tasks={tasks} />;
+      return (
+        <LoadingStatus
+          tasks={tasks}
+          isPaused={isPaused}
+          isCancelling={isCancelling}
+          onPause={handlePauseAnalysis}
+          onResume={handleResumeAnalysis}
+          onCancel={handleCancelAnalysis}
+        />
+      );
     }
     if (error) {
        return (
@@ -291,11 +396,12 @@ const App: React.FC = () => {
         );
     }
     if (results && appConfig) {
-      return <ResultsDashboard results={results} config={appConfig} onSaveReport={handleSaveReport} />;
+      return <ResultsDashboard results={results} config={appConfig} onSaveReport={handleSaveReport} isPartial={wasCancelled} />;
     }
     return (
       <div className="space-y-12">
-        <SetupForm onStartAnalysis={handleStartAnalysis} apiKeysConfigured={apiKeysConfigured} />
+        <InterruptedRunsList runs={interruptedRuns} onResume={handleResumeRun} onDiscard={handleDiscardRun} canResume={apiKeysConfigured} />
+        <SetupForm onStartAnalysis={handleStartAnalysis} apiKeysConfigured={apiKeysConfigured} priceTable={priceTable} />
         <SavedReportsList 
             reports={savedReports} 
             onView={handleViewReport} 
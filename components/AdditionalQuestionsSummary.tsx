@@ -1,19 +1,8 @@
 import React, { useState } from 'react';
-import type { AnalysisResult, Provider, AppConfig } from '../types';
+import type { AnalysisResult, AppConfig } from '../types';
 import { marked } from 'marked';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderDisplayName = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-}
-
+import { getProviderDisplayName } from '../services/providers';
+import { successfulSamples } from '../utils/brandStats';
 
 const QuestionCard: React.FC<{ question: string; results: AnalysisResult[]; index: number, config: AppConfig }> = ({ question, results, index, config }) => {
     const [isOpen, setIsOpen] = useState(false);
@@ -46,18 +35,26 @@ const QuestionCard: React.FC<{ question: string; results: AnalysisResult[]; inde
                                 {config.providers.map(provider => {
                                     const pResponse = result.providerResponses.find(pr => pr.provider === provider);
                                     if (!pResponse) return null;
-                                    const answer = pResponse.additionalAnswers.find(a => a.question === question);
-                                    if (!answer || !answer.answer.trim()) return null;
-
-                                    const answerHtml = marked.parse(answer.answer || '');
+                                    const samples = successfulSamples(pResponse);
+                                    const answers = samples
+                                        .map((sample, sampleIndex) => ({ sampleIndex, answer: sample.additionalAnswers.find(a => a.question === question) }))
+                                        .filter(({ answer }) => answer && answer.answer.trim());
+                                    if (answers.length === 0) return null;
 
                                     return (
                                         <div key={provider}>
                                             <h6 className="font-semibold text-gray-200 mb-1">{getProviderDisplayName(provider, config)}</h6>
-                                            <div 
-                                                className="prose prose-invert prose-sm max-w-none bg-gray-900 p-3 rounded-md text-gray-300"
-                                                dangerouslySetInnerHTML={{ __html: answerHtml }}
-                                            />
+                                            <div className="space-y-2">
+                                                {answers.map(({ sampleIndex, answer }) => (
+                                                    <div key={sampleIndex}>
+                                                        {samples.length > 1 && <p className="text-xs text-gray-500 mb-1">Sample {sampleIndex + 1}</p>}
+                                                        <div
+                                                            className="prose prose-invert prose-sm max-w-none bg-gray-900 p-3 rounded-md text-gray-300"
+                                                            dangerouslySetInnerHTML={{ __html: marked.parse(answer!.answer) }}
+                                                        />
+                                                    </div>
+                                                ))}
+                                            </div>
                                         </div>
                                     );
                                 })}
@@ -71,12 +68,9 @@ const QuestionCard: React.FC<{ question: string; results: AnalysisResult[]; inde
 }
 
 export const AdditionalQuestionsSummary: React.FC<{ results: AnalysisResult[], config: AppConfig }> = ({ results, config }) => {
-    if (!results[0]?.providerResponses[0]?.additionalAnswers) {
-        return null;
-    }
-    const questions = results[0].providerResponses[0].additionalAnswers.map(a => a.question);
-    
-    if (questions.length === 0) {
+    const questions = config.additionalQuestions;
+
+    if (questions.length === 0 || results.length === 0) {
         return null;
     }
 
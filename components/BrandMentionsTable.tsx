@@ -1,38 +1,18 @@
 import React from 'react';
-import type { Provider, AppConfig } from '../types';
-
-interface BrandMentionData {
-  brandName: string;
-  mentions: Record<Provider, number>;
-}
+import type { AppConfig } from '../types';
+import { getProviderShortName } from '../services/providers';
+import { formatPercent, formatInterval, formatRank, type BrandStats } from '../utils/brandStats';
 
 interface BrandMentionsTableProps {
-  data: BrandMentionData[];
-  clientName: string;
-  knownBrands: Set<string>;
+  data: BrandStats[];
   config: AppConfig;
 }
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Pplx',
-    copilot: 'Copilot'
-};
-
-const getProviderShortName = (provider: Provider, config: AppConfig) => {
-    const model = config.models[provider];
-    const baseName = providerBaseNames[provider];
-    if (model && model.length > 10) {
-        return `${baseName} (${model.substring(0,10)}...)`;
-    }
-    return model ? `${baseName} (${model})` : baseName;
-}
-
-export const BrandMentionsTable: React.FC<BrandMentionsTableProps> = ({ data, clientName, knownBrands, config }) => {
+export const BrandMentionsTable: React.FC<BrandMentionsTableProps> = ({ data, config }) => {
   return (
     <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg h-full">
-      <h3 className="text-xl font-semibold mb-4 text-gray-100">Comparative Brand Mentions</h3>
+      <h3 className="text-xl font-semibold mb-1 text-gray-100">Comparative Brand Mentions</h3>
+      <p className="text-xs text-gray-500 mb-4">Mention rate: share of sampled answers that mention the brand (95% interval). Below: mean mentions per answer and average rank (#1 = listed first). ⚠ marks where the LLM's count differs from an exact text match.</p>
       <div className="overflow-y-auto max-h-[300px] pr-2">
         <table className="w-full text-left">
           <thead className="sticky top-0 bg-gray-800 z-10">
@@ -44,26 +24,38 @@ export const BrandMentionsTable: React.FC<BrandMentionsTableProps> = ({ data, cl
             </tr>
           </thead>
           <tbody>
-            {data.map(({ brandName, mentions }) => {
-                const lowerCaseBrandName = brandName.toLowerCase();
-                const isClient = lowerCaseBrandName === clientName.toLowerCase();
-                const isKnown = knownBrands.has(lowerCaseBrandName);
-
-                return (
+            {data.map(({ brandName, isClient, isKnown, byProvider }) => (
                   <tr key={brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
                     <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>
                       {brandName}
                       {!isKnown && <span className="ml-2 text-xs font-semibold text-yellow-500 tracking-wider" title="This brand was discovered during analysis and was not in your initial list.">(Discovered)</span>}
                     </td>
-                    {config.providers.map(p => (
-                       <td key={p} className="py-3 text-right text-gray-300 font-mono">{mentions[p] || 0}</td>
-                    ))}
+                    {config.providers.map(p => {
+                       const stats = byProvider[p];
+                       if (!stats || stats.samples === 0) {
+                         return <td key={p} className="py-3 text-right text-gray-500 font-mono">–</td>;
+                       }
+                       return (
+                         <td key={p} className="py-3 text-right text-gray-300 font-mono" title={`${stats.mentionedSamples} of ${stats.samples} answers; ${stats.totalMentions} mentions in total`}>
+                           <div>{formatPercent(stats.mentionRate)}</div>
+                           <div className="text-xs text-gray-500">{formatInterval(stats.mentionRateInterval, formatPercent)}</div>
+                           <div className="text-xs text-gray-400">μ {stats.meanMentions.toFixed(1)}</div>
+                           {stats.meanRank !== null && (
+                             <div className="text-xs text-blue-300" title={`Average position in ${stats.rankedSamples} ranked answers`}>{formatRank(stats.meanRank)}</div>
+                           )}
+                           {stats.mismatchedSamples > 0 && (
+                             <div className="text-xs text-yellow-500" title={`The LLM counted ${stats.totalMentions} mentions, the text contains ${stats.localMentions} exact matches. The counts differ in ${stats.mismatchedSamples} of ${stats.samples} answers.`}>
+                               ⚠ text: {stats.localMentions}
+                             </div>
+                           )}
+                         </td>
+                       );
+                    })}
                   </tr>
-                )
-            })}
+            ))}
           </tbody>
         </table>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { AppConfig } from '../types';
+import { getProviderShortName } from '../services/providers';
+import { formatPercent } from '../utils/brandStats';
+import { findClientDomain, normalizeDomain, type SourceStats } from '../utils/sourceStats';
+
+interface CitedDomainsTableProps {
+  data: SourceStats;
+  config: AppConfig;
+}
+
+const MAX_DOMAINS = 15;
+const MAX_BRANDS_PER_DOMAIN = 4;
+
+const ClientDomainNote: React.FC<{ data: SourceStats; config: AppConfig }> = ({ data, config }) => {
+  if (!config.clientDomain) {
+    return <p className="text-xs text-gray-500 mb-4">Add your website in the setup to check whether answers cite your own domain.</p>;
+  }
+  const client = findClientDomain(data, config);
+  if (!client) {
+    return (
+      <p className="text-sm text-yellow-300 bg-yellow-900/30 border border-yellow-800 px-3 py-2 rounded-lg mb-4">
+        {normalizeDomain(config.clientDomain)} was not cited in any of the {data.citingSamples} answers with sources.
+      </p>
+    );
+  }
+  return (
+    <p className="text-sm text-green-300 bg-green-900/30 border border-green-800 px-3 py-2 rounded-lg mb-4">
+      {client.domain.domain} is cited in {client.domain.citedSamples} of {data.citingSamples} answers with sources ({formatPercent(client.domain.share)}), rank #{client.rank} of {data.domains.length} domains.
+    </p>
+  );
+};
+
+export const CitedDomainsTable: React.FC<CitedDomainsTableProps> = ({ data, config }) => {
+  if (data.domains.length === 0) return null;
+  const citingProviders = config.providers.filter(p => data.citingSamplesByProvider[p]);
+  const clientDomain = config.clientDomain ? normalizeDomain(config.clientDomain) : undefined;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg h-full">
+      <h3 className="text-xl font-semibold mb-1 text-gray-100">Top Cited Domains</h3>
+      <p className="text-xs text-gray-500 mb-4">Share of citation: share of the answers with sources that cite the domain. Brands: how many of those answers mention each brand.</p>
+      <ClientDomainNote data={data} config={config} />
+      <div className="overflow-auto max-h-[300px] pr-2">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-gray-800 z-10">
+            <tr>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Domain</th>
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Share</th>
+              {citingProviders.map(p => (
+                <th key={p} className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right" title={`Answers citing the domain, of ${data.citingSamplesByProvider[p]} with sources`}>{getProviderShortName(p, config)}</th>
+              ))}
+              <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 pl-6">Brands</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.domains.slice(0, MAX_DOMAINS).map(({ domain, citedSamples, share, citations, byProvider, brands }) => (
+              <tr key={domain} className={`border-b border-gray-700 last:border-b-0 ${domain === clientDomain ? 'bg-green-900/30' : ''}`}>
+                <td className={`py-2 ${domain === clientDomain ? 'text-green-400 font-medium' : 'text-gray-200'}`}>{domain}</td>
+                <td className="py-2 text-right text-gray-300 font-mono" title={`${citedSamples} answers; ${citations} citations in total`}>{formatPercent(share)}</td>
+                {citingProviders.map(p => (
+                  <td key={p} className="py-2 text-right text-gray-300 font-mono">{byProvider[p] || '–'}</td>
+                ))}
+                <td className="py-2 pl-6 text-sm">
+                  {brands.length === 0 && <span className="text-gray-500">No brand mentioned</span>}
+                  {brands.slice(0, MAX_BRANDS_PER_DOMAIN).map(({ brandName, samples }) => (
+                    <span key={brandName} className={`inline-block mr-3 ${brandName === config.clientName ? 'text-green-400 font-semibold' : 'text-gray-300'}`}>
+                      {brandName} <span className="text-gray-500">({samples})</span>
+                    </span>
+                  ))}
+                  {brands.length > MAX_BRANDS_PER_DOMAIN && <span className="text-gray-500">+{brands.length - MAX_BRANDS_PER_DOMAIN} more</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {data.domains.length > MAX_DOMAINS && <p className="text-xs text-gray-500 mt-3">Showing the top {MAX_DOMAINS} of {data.domains.length} domains.</p>}
+    </div>
+  );
+};
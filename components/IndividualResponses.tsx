@@ -1,19 +1,8 @@
 import React, { useState, useMemo } from 'react';
-import type { AnalysisResult, BrandAnalysis, Provider, ProviderResponse, AppConfig } from '../types';
+import type { AnalysisStep, AnalysisResult, BrandAnalysis, Citation, ConversationTurn, Provider, ProviderResponse, ResponseSample, AppConfig } from '../types';
 import { marked } from 'marked';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderDisplayName = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-}
-
+import { getProviderDisplayName } from '../services/providers';
+import { citationDomain, isLinkableUrl } from '../utils/sourceStats';
 
 const SentimentBadge: React.FC<{ sentiment: BrandAnalysis['sentiment'] }> = ({ sentiment }) => {
     const sentimentClasses = {
@@ -29,34 +18,125 @@ const SentimentBadge: React.FC<{ sentiment: BrandAnalysis['sentiment'] }> = ({ s
     );
 };
 
-const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }> = ({ providerResponse }) => {
-    if (providerResponse.error) {
+const cachedStepLabels: Record<AnalysisStep, string> = {
+    answer: 'LLM response',
+    analysis: 'brand analysis',
+    questions: 'additional answers',
+};
+
+const SourceList: React.FC<{ citations: Citation[] }> = ({ citations }) => (
+    <ol className="list-decimal list-inside space-y-1 text-sm text-gray-300">
+        {citations.map(citation => (
+            <li key={citation.url} className="truncate">
+                {isLinkableUrl(citation.url) ? (
+                    <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                        {citation.title || citation.url}
+                    </a>
+                ) : (
+                    <span>{citation.title || citation.url}</span>
+                )}
+                <span className="text-gray-500 ml-2">{citationDomain(citation)}</span>
+            </li>
+        ))}
+    </ol>
+);
+
+// One exchange of a conversation: the user's turn, the answer, and the brands that answer mentions.
+const TurnContent: React.FC<{ turn: ConversationTurn; index: number }> = ({ turn, index }) => {
+    const htmlResponse = useMemo(() => marked.parse(turn.response || ''), [turn.response]);
+    const mentioned = turn.brandAnalyses.filter(a => a.sentiment !== 'Not Mentioned');
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm bg-gray-700/50 border border-gray-600 rounded-md px-3 py-2 text-gray-200">
+                <span className="text-green-400 font-semibold mr-2">Turn {index + 1}:</span>
+                {turn.prompt}
+            </p>
+            <div
+                className="prose prose-invert prose-sm max-w-none bg-gray-900 p-4 rounded-md text-gray-300"
+                dangerouslySetInnerHTML={{ __html: htmlResponse }}
+            />
+            {turn.citations && turn.citations.length > 0 && <SourceList citations={turn.citations} />}
+            <div className="flex flex-wrap gap-2 items-center text-xs text-gray-400">
+                <span>Brands in this answer:</span>
+                {mentioned.length === 0 ? <span className="text-gray-500">none</span> : mentioned.map(analysis => (
+                    <span key={analysis.brandName} className="flex items-center gap-1">
+                        {analysis.rank !== undefined && <span className="text-blue-300">#{analysis.rank}</span>}
+                        <span className="text-gray-200">{analysis.brandName} ({analysis.mentions})</span>
+                        <SentimentBadge sentiment={analysis.sentiment} />
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const SampleContent: React.FC<{ sample: ResponseSample }> = ({ sample }) => {
+    const htmlResponse = useMemo(() => marked.parse(sample.response || ''), [sample.response]);
+
+    if (sample.error) {
         return (
             <div className="bg-red-900/30 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
-                <strong className="font-bold">An error occurred with this provider:</strong>
-                <p className="mt-1 text-sm">{providerResponse.error}</p>
+                <strong className="font-bold">This sample failed:</strong>
+                <p className="mt-1 text-sm">{sample.error}</p>
             </div>
         );
     }
-    
-    const htmlResponse = useMemo(() => marked.parse(providerResponse.response || ''), [providerResponse.response]);
 
     return (
       <div className="space-y-6">
-          <div>
-              <h5 className="font-semibold text-green-400 mb-2">LLM Response</h5>
-              <div
-                  className="prose prose-invert prose-sm max-w-none bg-gray-900 p-4 rounded-md text-gray-300"
-                  dangerouslySetInnerHTML={{ __html: htmlResponse }}
-              />
-          </div>
+          {sample.fromCache && (
+              <p className="text-xs text-blue-300 bg-blue-900/30 border border-blue-800 px-3 py-2 rounded-lg">
+                  Served from the response cache: {sample.fromCache.map(step => cachedStepLabels[step]).join(', ')}.
+              </p>
+          )}
+          {sample.warnings && (
+              <div className="text-xs text-yellow-300 bg-yellow-900/30 border border-yellow-800 px-3 py-2 rounded-lg">
+                  <p className="font-semibold">The analysis output needed fixing:</p>
+                  <ul className="list-disc list-inside mt-1">
+                      {sample.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                  </ul>
+              </div>
+          )}
+          {sample.turns ? (
+              <div>
+                  <h5 className="font-semibold text-green-400 mb-2">Conversation</h5>
+                  <div className="space-y-4">
+                      {sample.turns.map((turn, i) => <TurnContent key={i} turn={turn} index={i} />)}
+                  </div>
+              </div>
+          ) : (
+              <>
+                  <div>
+                      <h5 className="font-semibold text-green-400 mb-2">LLM Response</h5>
+                      <div
+                          className="prose prose-invert prose-sm max-w-none bg-gray-900 p-4 rounded-md text-gray-300"
+                          dangerouslySetInnerHTML={{ __html: htmlResponse }}
+                      />
+                  </div>
+                  {sample.citations && sample.citations.length > 0 && (
+                      <div>
+                          <h5 className="font-semibold text-green-400 mb-2">Sources</h5>
+                          <SourceList citations={sample.citations} />
+                      </div>
+                  )}
+              </>
+          )}
            <div>
-              <h5 className="font-semibold text-green-400 mb-2">Brand Analysis</h5>
+              <h5 className="font-semibold text-green-400 mb-2">{sample.turns ? 'Brand Analysis (whole conversation)' : 'Brand Analysis'}</h5>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  {providerResponse.brandAnalyses.map(analysis => (
+                  {sample.brandAnalyses.map(analysis => (
                       <div key={analysis.brandName} className="bg-gray-700/50 p-3 rounded-md">
-                          <p className="font-semibold text-gray-200">{analysis.brandName}</p>
+                          <p className="font-semibold text-gray-200">
+                              {analysis.rank !== undefined && <span className="text-blue-300 mr-1">#{analysis.rank}</span>}
+                              {analysis.brandName}
+                          </p>
                           <p className="text-sm text-gray-400">Mentions: {analysis.mentions}</p>
+                          {analysis.localMentions !== undefined && (
+                              <p className={`text-sm ${analysis.localMentions !== analysis.mentions ? 'text-yellow-500' : 'text-gray-500'}`} title="Exact matches of the brand name in the response text">
+                                  {analysis.localMentions !== analysis.mentions && '⚠ '}Text matches: {analysis.localMentions}
+                              </p>
+                          )}
                           <SentimentBadge sentiment={analysis.sentiment} />
                       </div>
                   ))}
@@ -66,6 +146,47 @@ const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }>
     );
 }
 
+const ProviderResponseContent: React.FC<{ providerResponse: ProviderResponse }> = ({ providerResponse }) => {
+    const [activeSample, setActiveSample] = useState(0);
+    const { samples } = providerResponse;
+
+    if (providerResponse.error) {
+        return (
+            <div className="bg-red-900/30 border border-red-700 text-red-300 px-4 py-3 rounded-lg">
+                <strong className="font-bold">An error occurred with this provider:</strong>
+                <p className="mt-1 text-sm">{providerResponse.error}</p>
+            </div>
+        );
+    }
+
+    if (samples.length === 0) {
+        return <p className="text-gray-400">No response available for this provider.</p>;
+    }
+
+    const sampleIndex = Math.min(activeSample, samples.length - 1);
+
+    return (
+      <div className="space-y-4">
+          {samples.length > 1 && (
+              <div className="flex flex-wrap gap-2" role="tablist" aria-label="Samples">
+                  {samples.map((sample, i) => (
+                      <button
+                          key={i}
+                          onClick={() => setActiveSample(i)}
+                          className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors
+                            ${i === sampleIndex ? 'bg-green-800 text-green-200 border-green-600' : 'bg-gray-700 text-gray-300 border-gray-600 hover:bg-gray-600'}
+                            ${sample.error ? 'text-red-400' : ''}`}
+                      >
+                          Sample {i + 1}
+                      </button>
+                  ))}
+              </div>
+          )}
+          <SampleContent key={sampleIndex} sample={samples[sampleIndex]} />
+      </div>
+    );
+}
+
 
 const ResponseCard: React.FC<{ result: AnalysisResult; index: number; config: AppConfig }> = ({ result, index, config }) => {
     const [isOpen, setIsOpen] = useState(false);
@@ -79,7 +200,13 @@ const ResponseCard: React.FC<{ result: AnalysisResult; index: number; config: Ap
             >
                 <h4 className="font-semibold text-gray-200">
                     <span className="text-green-400 mr-2">Prompt {index + 1}:</span> 
+                    {result.persona && (
+                        <span className="mr-2 text-xs font-medium bg-gray-600 text-gray-200 px-2 py-0.5 rounded">{result.persona}</span>
+                    )}
                     {result.prompt}
+                    {Object.entries(result.variables || {}).map(([name, value]) => (
+                        <span key={name} className="ml-2 text-xs font-normal bg-blue-900/50 text-blue-200 px-2 py-0.5 rounded" title={`Template variable ${name}`}>{name}: {value}</span>
+                    ))}
                 </h4>
                 <svg
                     className={`w-5 h-5 text-gray-400 transition-transform transform ${isOpen ? 'rotate-180' : ''}`}
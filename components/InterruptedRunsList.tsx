@@ -0,0 +1,52 @@
+import React from 'react';
+import type { InterruptedRun } from '../types';
+
+interface InterruptedRunsListProps {
+  runs: InterruptedRun[];
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+  canResume: boolean;
+}
+
+export const InterruptedRunsList: React.FC<InterruptedRunsListProps> = ({ runs, onResume, onDiscard, canResume }) => {
+  if (runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-yellow-700/60">
+      <h2 className="text-3xl font-bold mb-2 text-yellow-400">Interrupted Runs</h2>
+      <p className="text-gray-400 mb-6">These analyses did not finish. Resuming only re-runs the tasks that are still pending or that failed.</p>
+
+      <div className="space-y-3">
+        {runs.map((run) => (
+          <div key={run.id} className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 flex justify-between items-center">
+            <div>
+              <p className="font-semibold text-gray-200">{run.clientName}</p>
+              <p className="text-sm text-gray-400">
+                Started on: {new Date(run.createdAt).toLocaleString()} &middot; {run.completedCount} of {run.taskCount} tasks saved
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => onResume(run.id)}
+                disabled={!canResume}
+                className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-3 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                title={canResume ? 'Resume this run' : 'Configure your API keys in Settings first'}
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => onDiscard(run.id)}
+                className="bg-red-800/50 hover:bg-red-800 text-red-300 font-bold py-2 px-3 rounded-md transition-colors"
+                title="Discard this run"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { formatPercent } from '../utils/brandStats';
+import { formatIndex, formatNetSentiment, type VisibilityKpis } from '../utils/visibilityKpis';
+
+export interface KpiBreakdownRow {
+  key: string;
+  label: string;
+  detail?: string; // Shown in small print after the label
+  kpis: VisibilityKpis;
+}
+
+interface KpiBreakdownTableProps {
+  title: string;
+  description: string;
+  labelHeader: string;
+  rows: KpiBreakdownRow[];
+  selectedKey: string; // '' when no row is selected
+  onSelect: (key: string) => void; // Called with '' when the selected row is clicked again
+  controls?: React.ReactNode; // Shown to the right of the title
+}
+
+// Client KPIs for each slice of the results, one selectable row per slice.
+export const KpiBreakdownTable: React.FC<KpiBreakdownTableProps> = ({ title, description, labelHeader, rows, selectedKey, onSelect, controls }) => (
+  <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+    <div className="flex justify-between items-start mb-4">
+      <div>
+        <h3 className="text-xl font-semibold mb-1 text-gray-100">{title}</h3>
+        <p className="text-xs text-gray-500">{description}</p>
+      </div>
+      {controls}
+    </div>
+    <table className="w-full text-left">
+      <thead>
+        <tr>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">{labelHeader}</th>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Visibility Index</th>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Share of Voice</th>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Mention Rate</th>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Net Sentiment</th>
+          <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Answers</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ key, label, detail, kpis }) => {
+          const isSelected = selectedKey === key;
+          return (
+            <tr
+              key={key}
+              onClick={() => onSelect(isSelected ? '' : key)}
+              className={`border-b border-gray-700 last:border-b-0 cursor-pointer hover:bg-gray-700/50 ${isSelected ? 'bg-green-900/30' : ''}`}
+            >
+              <td className="py-2 text-gray-200">
+                {label}
+                {detail && <span className="ml-2 text-xs text-gray-500">{detail}</span>}
+              </td>
+              <td className="py-2 text-right text-gray-300 font-mono">{formatIndex(kpis.visibilityIndex)}</td>
+              <td className="py-2 text-right text-gray-300 font-mono">{formatPercent(kpis.shareOfVoice)}</td>
+              <td className="py-2 text-right text-gray-300 font-mono">{formatPercent(kpis.mentionRate)}</td>
+              <td className="py-2 text-right text-gray-300 font-mono">{formatNetSentiment(kpis.netSentiment)}</td>
+              <td className="py-2 text-right text-gray-300 font-mono">{kpis.answers}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import type { Task } from '../types';
 
 const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
@@ -7,6 +7,8 @@ const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
             return <div className="h-5 w-5 rounded-full border-2 border-gray-500" title="Pending"></div>;
         case 'in_progress':
             return <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-green-500" title="In Progress"></div>;
+        case 'retrying':
+            return <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-yellow-500" title="Retrying"></div>;
         case 'completed':
             return (
                 // FIX: Replaced title prop with <title> element for SVG accessibility and to fix the TypeScript error.
@@ -15,6 +17,13 @@ const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
                 </svg>
             );
+        case 'cancelled':
+            return (
+                <svg className="h-5 w-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <title>Cancelled</title>
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M18 12H6" />
+                </svg>
+            );
         case 'error':
              return (
                 // FIX: Replaced title prop with <title> element for SVG accessibility and to fix the TypeScript error.
@@ -28,19 +37,97 @@ const StatusIcon: React.FC<{ status: Task['status'] }> = ({ status }) => {
     }
 };
 
+// The streamed answer of a task, kept scrolled to the newest text.
+const LiveTextPanel: React.FC<{ liveText: string[] }> = ({ liveText }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (containerRef.current) containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }, [liveText]);
+
+    return (
+        <div ref={containerRef} className="mt-2 max-h-48 overflow-y-auto bg-gray-900 border border-gray-700 rounded-md p-3 space-y-3">
+            {liveText.map((text, i) => text !== undefined && (
+                <div key={i}>
+                    {liveText.length > 1 && <p className="text-xs font-semibold text-gray-500 mb-1">Sample {i + 1}</p>}
+                    <pre className="text-xs text-gray-300 whitespace-pre-wrap break-words font-sans">{text}</pre>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const TaskRow: React.FC<{ task: Task }> = ({ task }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const hasLiveText = !!task.liveText?.some(text => text);
+
+    return (
+        <div className={`p-3 rounded-lg transition-colors ${task.status === 'completed' ? 'bg-green-900/20' : 'bg-gray-900/50'}`}>
+            <div className="flex items-center space-x-4">
+                <div className="flex-shrink-0">
+                    <StatusIcon status={task.status} />
+                </div>
+                <div className="flex-grow">
+                    <p className={`text-sm font-medium ${task.status === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
+                        {task.description}
+                    </p>
+                    {task.status === 'retrying' && task.retryMessage && <p className="text-xs text-yellow-500 mt-1">{task.retryMessage}</p>}
+                    {task.status !== 'retrying' && !!task.retries && (
+                        <p className="text-xs text-gray-500 mt-1">{task.retries} {task.retries === 1 ? 'retry' : 'retries'}</p>
+                    )}
+                    {task.error && <p className="text-xs text-red-500 mt-1">{task.error}</p>}
+                    {task.warnings?.map((warning, i) => <p key={i} className="text-xs text-yellow-500 mt-1">⚠ {warning}</p>)}
+                </div>
+                {hasLiveText && (
+                    <button onClick={() => setIsOpen(!isOpen)} className="flex-shrink-0 text-xs text-green-400 hover:text-green-300" aria-expanded={isOpen}>
+                        {isOpen ? 'Hide answer' : 'Show answer'}
+                    </button>
+                )}
+            </div>
+            {isOpen && hasLiveText && <LiveTextPanel liveText={task.liveText!} />}
+        </div>
+    );
+};
+
 interface LoadingStatusProps {
   tasks: Task[];
+  isPaused: boolean;
+  isCancelling: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
 }
 
-export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks }) => {
-    const completedCount = tasks.filter(t => t.status === 'completed' || t.status === 'error').length;
+export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks, isPaused, isCancelling, onPause, onResume, onCancel }) => {
+    const completedCount = tasks.filter(t => t.status === 'completed' || t.status === 'error' || t.status === 'cancelled').length;
     const totalCount = tasks.length;
     const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
 
     return (
         <div className="max-w-2xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
-            <h3 className="text-xl font-semibold text-gray-200 text-center">Analyzing Responses...</h3>
-            <p className="text-gray-400 text-center mt-2 mb-6">Please wait while we perform the analysis. You can see the progress below.</p>
+            <h3 className="text-xl font-semibold text-gray-200 text-center">
+                {isCancelling ? 'Cancelling...' : isPaused ? 'Analysis Paused' : 'Analyzing Responses...'}
+            </h3>
+            <p className="text-gray-400 text-center mt-2 mb-6">
+                {isPaused
+                    ? 'Requests already in flight will finish, but no new ones are started until you resume.'
+                    : 'Please wait while we perform the analysis. Open a task below to watch its answer stream in.'}
+            </p>
+
+            <div className="flex justify-center space-x-3 mb-6">
+                {isPaused ? (
+                    <button onClick={onResume} disabled={isCancelling} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        Resume
+                    </button>
+                ) : (
+                    <button onClick={onPause} disabled={isCancelling} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        Pause
+                    </button>
+                )}
+                <button onClick={onCancel} disabled={isCancelling} className="bg-red-800/50 hover:bg-red-800 text-red-300 font-bold py-2 px-4 rounded-lg transition-colors disabled:cursor-not-allowed" title="Stop the run and keep the results completed so far">
+                    Cancel
+                </button>
+            </div>
             
             <div className="w-full bg-gray-700 rounded-full h-2.5 mb-4">
                 <div className="bg-green-600 h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.5s ease-in-out' }}></div>
@@ -48,19 +135,7 @@ export const LoadingStatus: React.FC<LoadingStatusProps> = ({ tasks }) => {
             <p className="text-center text-sm text-gray-400 mb-6" aria-live="polite">{completedCount} of {totalCount} tasks completed</p>
 
             <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
-                {tasks.map(task => (
-                    <div key={task.id} className={`p-3 rounded-lg flex items-center space-x-4 transition-colors ${task.status === 'completed' ? 'bg-green-900/20' : 'bg-gray-900/50'}`}>
-                        <div className="flex-shrink-0">
-                            <StatusIcon status={task.status} />
-                        </div>
-                        <div className="flex-grow">
-                            <p className={`text-sm font-medium ${task.status === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
-                                {task.description}
-                            </p>
-                            {task.error && <p className="text-xs text-red-500 mt-1">{task.error}</p>}
-                        </div>
-                    </div>
-                ))}
+                {tasks.map(task => <TaskRow key={task.id} task={task} />)}
             </div>
         </div>
     );
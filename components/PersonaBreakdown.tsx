@@ -0,0 +1,32 @@
+import React from 'react';
+import type { AnalysisResult, AppConfig } from '../types';
+import { computeVisibilityKpis } from '../utils/visibilityKpis';
+import { KpiBreakdownTable } from './KpiBreakdownTable';
+
+interface PersonaBreakdownProps {
+  results: AnalysisResult[];
+  config: AppConfig;
+  selectedPersona: string; // '' for all personas
+  onSelectPersona: (persona: string) => void;
+}
+
+export const PersonaBreakdown: React.FC<PersonaBreakdownProps> = ({ results, config, selectedPersona, onSelectPersona }) => {
+  const personas = config.personas || [];
+  if (personas.length === 0) return null;
+
+  return (
+    <KpiBreakdownTable
+      title="Persona Breakdown"
+      description={`${config.clientName}'s visibility by who is asking. Select a persona to filter the whole dashboard.`}
+      labelHeader="Persona"
+      rows={personas.map(persona => ({
+        key: persona.name,
+        label: persona.name,
+        detail: [persona.language, persona.country].filter(Boolean).join(', '),
+        kpis: computeVisibilityKpis(results.filter(r => r.persona === persona.name), config).overall,
+      }))}
+      selectedKey={selectedPersona}
+      onSelect={onSelectPersona}
+    />
+  );
+};
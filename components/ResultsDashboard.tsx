@@ -1,5 +1,5 @@
-import React from 'react';
-import type { AnalysisResult, AppConfig, Provider, SentimentData } from '../types';
+import React, { useState } from 'react';
+import type { AnalysisResult, AppConfig, SentimentData } from '../types';
 import { SummaryCards } from './SummaryCards';
 import { SentimentChart } from './SentimentChart';
 import { IndividualResponses } from './IndividualResponses';
@@ -7,101 +7,46 @@ import { ExportButton } from './ExportButton';
 import { AdditionalQuestionsSummary } from './AdditionalQuestionsSummary';
 import { BrandMentionsTable } from './BrandMentionsTable';
 import { SentimentScoresTable } from './SentimentScoresTable';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
+import { UsageSummary } from './UsageSummary';
+import { CitedDomainsTable } from './CitedDomainsTable';
+import { PersonaBreakdown } from './PersonaBreakdown';
+import { VariableBreakdown } from './VariableBreakdown';
+import { getJudgeDisplayName, getProviderDisplayName } from '../services/providers';
+import { aggregateBrandStats, successfulSamples } from '../utils/brandStats';
+import { aggregateSourceStats } from '../utils/sourceStats';
+import { runPrompts } from '../services/personas';
+import { filterByVariables, runVariables } from '../utils/promptTemplates';
 
 interface ResultsDashboardProps {
   results: AnalysisResult[];
   config: AppConfig;
   onSaveReport: () => void;
+  isPartial?: boolean; // The run was cancelled before every task finished
 }
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, config, onSaveReport }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results: allResults, config, onSaveReport, isPartial }) => {
+  const [selectedPersona, setSelectedPersona] = useState<string>(''); // '' shows all personas
+  const [variableFilters, setVariableFilters] = useState<Partial<Record<string, string>>>({}); // Template variable values to show
+  const personas = config.personas || [];
+  const variables = runVariables(config);
+  const selectVariableValue = (variable: string, value: string) => setVariableFilters(prev => ({ ...prev, [variable]: value }));
+  const results = filterByVariables(selectedPersona ? allResults.filter(r => r.persona === selectedPersona) : allResults, variableFilters);
+  const promptCount = new Set(results.map(r => r.prompt)).size;
   
-  const knownBrandsLower = new Set([config.clientName, ...config.competitors].map(b => b.toLowerCase()));
   const allKnownBrands = [config.clientName, ...config.competitors];
   
   // --- Data Aggregation for Comparative Views ---
   
-  // 1. Aggregate Brand Mentions
-  const mentionsMap = new Map<string, { brandName: string, mentions: Record<Provider, number> }>();
-  
-  results.forEach(result => {
-    result.providerResponses.forEach(pResponse => {
-      pResponse.brandAnalyses.forEach(analysis => {
-        if (typeof analysis.brandName === 'string') {
-          const lowerCaseBrand = analysis.brandName.toLowerCase();
-          if (!mentionsMap.has(lowerCaseBrand)) {
-            mentionsMap.set(lowerCaseBrand, { brandName: analysis.brandName, mentions: { gemini: 0, openai: 0, perplexity: 0, copilot: 0 } });
-          }
-          const entry = mentionsMap.get(lowerCaseBrand)!;
-          entry.mentions[pResponse.provider] += analysis.mentions;
-        }
-      });
-    });
-  });
-
-  allKnownBrands.forEach(brand => {
-    const lowerCaseBrand = brand.toLowerCase();
-    if (!mentionsMap.has(lowerCaseBrand)) {
-       mentionsMap.set(lowerCaseBrand, { brandName: brand, mentions: { gemini: 0, openai: 0, perplexity: 0, copilot: 0 } });
-    }
-  });
-
-  const brandMentionsData = Array.from(mentionsMap.values()).sort((a, b) => {
-    const totalA = Object.values(a.mentions).reduce((s, c) => s + c, 0);
-    const totalB = Object.values(b.mentions).reduce((s, c) => s + c, 0);
-    return totalB - totalA;
-  });
-
-  // 2. Aggregate Sentiment Scores
-  const sentimentMap = new Map<string, { brandName: string, sentiments: Record<Provider, { P: number, N: number, Nl: number }> }>();
-
-  results.forEach(result => {
-      result.providerResponses.forEach(pResponse => {
-          pResponse.brandAnalyses.forEach(analysis => {
-              if (typeof analysis.brandName === 'string' && analysis.sentiment !== 'Not Mentioned') {
-                  const lowerCaseBrand = analysis.brandName.toLowerCase();
-                  if (!sentimentMap.has(lowerCaseBrand)) {
-                      sentimentMap.set(lowerCaseBrand, { brandName: analysis.brandName, sentiments: { 
-                          gemini: { P: 0, N: 0, Nl: 0 }, openai: { P: 0, N: 0, Nl: 0 }, 
-                          perplexity: { P: 0, N: 0, Nl: 0 }, copilot: { P: 0, N: 0, Nl: 0 } 
-                      }});
-                  }
-                  const entry = sentimentMap.get(lowerCaseBrand)!;
-                  if (analysis.sentiment === 'Positive') entry.sentiments[pResponse.provider].P++;
-                  if (analysis.sentiment === 'Negative') entry.sentiments[pResponse.provider].N++;
-                  if (analysis.sentiment === 'Neutral') entry.sentiments[pResponse.provider].Nl++;
-              }
-          });
-      });
-  });
-
-   allKnownBrands.forEach(brand => {
-    const lowerCaseBrand = brand.toLowerCase();
-    if (!sentimentMap.has(lowerCaseBrand)) {
-       sentimentMap.set(lowerCaseBrand, { brandName: brand, sentiments: { 
-          gemini: { P: 0, N: 0, Nl: 0 }, openai: { P: 0, N: 0, Nl: 0 }, 
-          perplexity: { P: 0, N: 0, Nl: 0 }, copilot: { P: 0, N: 0, Nl: 0 } 
-      }});
-    }
-  });
-  
-  const sentimentScoresData = Array.from(sentimentMap.values());
+  // 1. Mention rates and sentiment per brand and provider, across all samples
+  const brandStats = aggregateBrandStats(results, config);
 
-  // 3. Prepare data for Sentiment Chart (only known brands)
+  // 2. Prepare data for Sentiment Chart (only known brands)
   const chartSentimentData = allKnownBrands.map(brand => {
-      const lowerCaseBrand = brand.toLowerCase();
-      const sentimentEntry = sentimentMap.get(lowerCaseBrand);
+      const brandEntry = brandStats.find(b => b.brandName.toLowerCase() === brand.toLowerCase());
       const dataPoint: SentimentData = { name: brand };
 
       config.providers.forEach(provider => {
-          const sentiments = sentimentEntry?.sentiments[provider] || { P: 0, N: 0, Nl: 0 };
+          const sentiments = brandEntry?.byProvider[provider]?.sentiment || { P: 0, N: 0, Nl: 0 };
           dataPoint[`Positive-${provider}`] = sentiments.P;
           dataPoint[`Neutral-${provider}`] = sentiments.Nl;
           dataPoint[`Negative-${provider}`] = sentiments.N;
@@ -109,14 +54,24 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, con
       return dataPoint;
   });
   
-  const selectedProviderNames = config.providers.map(p => `${providerBaseNames[p]} (${config.models[p]})`).join(', ');
+  // 3. Domains cited as sources across providers, with the brands mentioned alongside them
+  const sourceStats = aggregateSourceStats(results, config);
+
+  const allSamples = results.flatMap(r => r.providerResponses).flatMap(successfulSamples);
+  const cachedAnswers = allSamples.filter(sample => sample.fromCache?.includes('answer')).length;
+  const samplesWithWarnings = allSamples.filter(sample => sample.warnings).length;
+
+  const selectedProviderNames = config.providers.map(p => getProviderDisplayName(p, config)).join(', ');
 
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-start">
         <div>
-            <h2 className="text-3xl font-bold text-green-400">Analysis complete for "{config.clientName}"</h2>
-            <p className="text-gray-400 mt-1">Showing results for {results.length} prompts using <span className="font-semibold text-gray-300">{selectedProviderNames}</span>.</p>
+            <h2 className="text-3xl font-bold text-green-400">{isPartial ? 'Partial analysis' : 'Analysis complete'} for "{config.clientName}"</h2>
+            <p className="text-gray-400 mt-1">Showing results for {promptCount} prompts{personas.length > 0 && (selectedPersona ? ` as ${selectedPersona}` : ` × ${personas.length} personas`)}{config.samplesPerPrompt > 1 ? ` (${config.samplesPerPrompt} samples each)` : ''} using <span className="font-semibold text-gray-300">{selectedProviderNames}</span>.</p>
+            {cachedAnswers > 0 && <p className="text-blue-300 text-sm">{cachedAnswers} of {allSamples.length} answers were reused from the response cache.</p>}
+            {samplesWithWarnings > 0 && <p className="text-yellow-400 text-sm">⚠ The brand analysis of {samplesWithWarnings} of {allSamples.length} answers needed repairs or corrections; see the individual responses.</p>}
+            <p className="text-gray-400 text-sm">{config.judge ? <>All answers graded by <span className="font-semibold text-gray-300">{getJudgeDisplayName(config.judge)}</span>.</> : 'Each provider graded its own answers.'}</p>
         </div>
         <div className="flex items-center space-x-2 flex-shrink-0">
           <button 
@@ -129,26 +84,75 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, con
               </svg>
               <span>Save Report</span>
           </button>
-          <ExportButton results={results} config={config} />
+          <ExportButton results={allResults} config={config} />
         </div>
       </div>
 
-      <SummaryCards results={results} clientName={config.clientName} providers={config.providers} />
-        
-      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
-        <div className="lg:col-span-2">
-            <BrandMentionsTable data={brandMentionsData} clientName={config.clientName} knownBrands={knownBrandsLower} config={config} />
+      {isPartial && (
+        <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg" role="status">
+            The analysis was cancelled. Showing the {allResults.length} of {runPrompts(config).length} {personas.length > 0 ? 'prompt and persona combinations' : 'prompts'} that had at least one completed response.
         </div>
-        <div className="lg:col-span-3">
-            <SentimentScoresTable data={sentimentScoresData} clientName={config.clientName} config={config} />
+      )}
+
+      {(personas.length > 0 || variables.length > 0) && (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+          {personas.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="persona-filter" className="text-sm text-gray-400">Persona</label>
+              <select id="persona-filter" value={selectedPersona} onChange={(e) => setSelectedPersona(e.target.value)} className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                <option value="">All personas</option>
+                {personas.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+            </div>
+          )}
+          {variables.map(({ name, values }) => (
+            <div key={name} className="flex items-center space-x-3">
+              <label htmlFor={`variable-filter-${name}`} className="text-sm text-gray-400">{name}</label>
+              <select id={`variable-filter-${name}`} value={variableFilters[name] || ''} onChange={(e) => selectVariableValue(name, e.target.value)} className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                <option value="">All values</option>
+                {values.map(value => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </div>
+          ))}
         </div>
-      </div>
+      )}
+
+      <SummaryCards brandStats={brandStats} results={results} config={config} />
+
+      <PersonaBreakdown results={allResults} config={config} selectedPersona={selectedPersona} onSelectPersona={setSelectedPersona} />
+
+      <VariableBreakdown results={allResults} config={config} selectedValues={variableFilters} onSelectValue={selectVariableValue} />
+        
+      {sourceStats.domains.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            <div className="lg:col-span-2">
+                <BrandMentionsTable data={brandStats} config={config} />
+            </div>
+            <div className="lg:col-span-3">
+                <CitedDomainsTable data={sourceStats} config={config} />
+            </div>
+          </div>
+          <SentimentScoresTable data={brandStats} config={config} />
+        </>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-2">
+              <BrandMentionsTable data={brandStats} config={config} />
+          </div>
+          <div className="lg:col-span-3">
+              <SentimentScoresTable data={brandStats} config={config} />
+          </div>
+        </div>
+      )}
       
       <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
           <h3 className="text-xl font-semibold mb-4">Comparative Sentiment Analysis (Tracked Brands)</h3>
           <SentimentChart data={chartSentimentData} providers={config.providers} />
       </div>
         
+      <UsageSummary results={results} config={config} />
+
       {config.additionalQuestions.length > 0 && <AdditionalQuestionsSummary results={results} config={config}/>}
       
       <IndividualResponses results={results} config={config} />
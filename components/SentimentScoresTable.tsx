@@ -1,35 +1,15 @@
 import React from 'react';
-import type { Provider, AppConfig } from '../types';
-
-interface SentimentScoresData {
-    brandName: string;
-    sentiments: Record<Provider, { P: number, N: number, Nl: number }>;
-}
+import type { AppConfig } from '../types';
+import { getProviderShortName } from '../services/providers';
+import type { BrandStats } from '../utils/brandStats';
 
 interface SentimentScoresTableProps {
-  data: SentimentScoresData[];
-  clientName: string;
+  data: BrandStats[];
   config: AppConfig;
 }
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot'
-};
-
-const getProviderShortName = (provider: Provider, config: AppConfig) => {
-    const model = config.models[provider];
-    const baseName = providerBaseNames[provider];
-    if (model && model.length > 10) {
-        return `${baseName} (${model.substring(0,10)}...)`;
-    }
-    return model ? `${baseName} (${model})` : baseName;
-}
-
 
-export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data, clientName, config }) => {
+export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data, config }) => {
   return (
     <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg h-full">
       <h3 className="text-xl font-semibold mb-4 text-gray-100">Comparative Sentiment Scores</h3>
@@ -53,15 +33,14 @@ export const SentimentScoresTable: React.FC<SentimentScoresTableProps> = ({ data
             </tr>
           </thead>
           <tbody>
-            {data.map(({ brandName, sentiments }) => {
-                const isClient = brandName.toLowerCase() === clientName.toLowerCase();
+            {data.map(({ brandName, isClient, byProvider }) => {
                 return (
                   <tr key={brandName} className={`border-b border-gray-700 last:border-b-0 ${isClient ? 'bg-green-900/30' : ''}`}>
                     <td className={`py-3 font-medium ${isClient ? 'text-green-400' : 'text-gray-200'}`}>
                       {brandName}
                     </td>
                     {config.providers.map(p => {
-                        const score = sentiments[p] || { P: 0, Nl: 0, N: 0 };
+                        const score = byProvider[p]?.sentiment || { P: 0, Nl: 0, N: 0 };
                         return (
                             <React.Fragment key={p}>
                                 <td className="py-3 text-center text-green-400 font-mono">{score.P}</td>
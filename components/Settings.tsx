@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../supabase';
-import type { User, ApiKeys } from '../types';
+import type { User, ApiKeys, PriceTable } from '../types';
+import { credentialFields, credentialColumns } from '../services/providers';
+import { mergePriceTable } from '../services/pricing';
 
 interface SettingsProps {
     user: User;
     onClose: () => void;
+    onPriceTableSaved: (priceTable: PriceTable) => void;
 }
 
 const FormField: React.FC<{ label: string; description?: string; children: React.ReactNode }> = ({ label, description, children }) => (
@@ -15,10 +18,12 @@ const FormField: React.FC<{ label: string; description?: string; children: React
     </div>
 );
 
-export const Settings: React.FC<SettingsProps> = ({ user, onClose }) => {
+export const Settings: React.FC<SettingsProps> = ({ user, onClose, onPriceTableSaved }) => {
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [apiKeys, setApiKeys] = useState<ApiKeys>({});
+    const [priceTable, setPriceTable] = useState<PriceTable>(mergePriceTable());
+    const [newModel, setNewModel] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
     const [message, setMessage] = useState<string | null>(null);
 
@@ -27,21 +32,18 @@ export const Settings: React.FC<SettingsProps> = ({ user, onClose }) => {
             setLoading(true);
             const { data, error, status } = await supabase
                 .from('profiles')
-                .select(`gemini, openai, perplexity, copilotKey, copilotEndpoint`)
+                .select<string, ApiKeys>(credentialColumns)
                 .eq('id', user.id)
                 .single();
 
             if (error && status !== 406) throw error; // 406 means no rows found, which is fine for a new user
 
             if (data) {
-                setApiKeys({
-                    gemini: data.gemini,
-                    openai: data.openai,
-                    perplexity: data.perplexity,
-                    copilotKey: data.copilotKey,
-                    copilotEndpoint: data.copilotEndpoint,
-                });
+                setApiKeys(data);
             }
+
+            const { data: prices } = await supabase.from('profiles').select('price_table').eq('id', user.id).single();
+            setPriceTable(mergePriceTable(prices?.price_table));
         } catch (error: any) {
             setError(error.message);
         } finally {
@@ -53,10 +55,24 @@ export const Settings: React.FC<SettingsProps> = ({ user, onClose }) => {
         getProfile();
     }, [getProfile]);
 
-    const handleApiKeyChange = (key: keyof ApiKeys, value: string) => {
+    const handleApiKeyChange = (key: string, value: string) => {
         setApiKeys(prev => ({ ...prev, [key]: value }));
     };
 
+    const handlePriceChange = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: string) => {
+        setPriceTable(prev => {
+            const price = prev[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+            return { ...prev, [model]: { ...price, [field]: Math.max(0, parseFloat(value) || 0) } };
+        });
+    };
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (!model || priceTable[model]) return;
+        setPriceTable(prev => ({ ...prev, [model]: { inputPerMillion: 0, outputPerMillion: 0 } }));
+        setNewModel('');
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
@@ -66,14 +82,12 @@ export const Settings: React.FC<SettingsProps> = ({ user, onClose }) => {
             const updates = {
                 id: user.id,
                 updated_at: new Date().toISOString(),
-                gemini: apiKeys.gemini,
-                openai: apiKeys.openai,
-                perplexity: apiKeys.perplexity,
-                copilotKey: apiKeys.copilotKey,
-                copilotEndpoint: apiKeys.copilotEndpoint,
+                ...Object.fromEntries(credentialFields.map(f => [f.key, apiKeys[f.key]])),
+                price_table: priceTable,
             };
             const { error } = await supabase.from('profiles').upsert(updates);
             if (error) throw error;
+            onPriceTableSaved(priceTable);
             setMessage('Settings saved successfully!');
             setTimeout(() => setMessage(null), 3000);
         } catch (error: any) {
@@ -99,20 +113,38 @@ export const Settings: React.FC<SettingsProps> = ({ user, onClose }) => {
             {message && <p className="mb-4 text-green-300 bg-green-900/50 p-3 rounded-lg" role="status">{message}</p>}
 
             <form onSubmit={handleSubmit} className="space-y-6">
-                 <FormField label="Google Gemini API Key">
-                    <input type="password" value={apiKeys.gemini || ''} onChange={(e) => handleApiKeyChange('gemini', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Gemini API key" />
-                </FormField>
-                 <FormField label="OpenAI API Key">
-                    <input type="password" value={apiKeys.openai || ''} onChange={(e) => handleApiKeyChange('openai', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your OpenAI API key" />
-                </FormField>
-                <FormField label="Perplexity API Key">
-                    <input type="password" value={apiKeys.perplexity || ''} onChange={(e) => handleApiKeyChange('perplexity', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Perplexity API key" />
-                </FormField>
-                <FormField label="Azure/Copilot Endpoint URL">
-                    <input type="text" value={apiKeys.copilotEndpoint || ''} onChange={(e) => handleApiKeyChange('copilotEndpoint', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., https://your-resource.openai.azure.com" />
-                </FormField>
-                <FormField label="Azure/Copilot API Key">
-                    <input type="password" value={apiKeys.copilotKey || ''} onChange={(e) => handleApiKeyChange('copilotKey', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Enter your Azure API key" />
+                {credentialFields.map(field => (
+                    <FormField key={field.key} label={field.label}>
+                        <input type={field.secret ? 'password' : 'text'} value={apiKeys[field.key] || ''} onChange={(e) => handleApiKeyChange(field.key, e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={field.placeholder} />
+                    </FormField>
+                ))}
+                <FormField label="Model Prices" description="USD per million tokens, used for cost estimates and run totals. Add models that are not listed, such as Azure deployments or custom endpoint models.">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="text-gray-400">
+                                <th className="pb-2 font-semibold">Model</th>
+                                <th className="pb-2 font-semibold text-right">Input</th>
+                                <th className="pb-2 font-semibold text-right">Output</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Object.entries(priceTable).map(([model, price]) => (
+                                <tr key={model} className="border-t border-gray-700">
+                                    <td className="py-2 text-gray-200">{model}</td>
+                                    <td className="py-2 text-right">
+                                        <input type="number" min={0} step="0.01" value={price?.inputPerMillion ?? 0} onChange={(e) => handlePriceChange(model, 'inputPerMillion', e.target.value)} className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        <input type="number" min={0} step="0.01" value={price?.outputPerMillion ?? 0} onChange={(e) => handlePriceChange(model, 'outputPerMillion', e.target.value)} className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="flex mt-3 space-x-2">
+                        <input type="text" value={newModel} onChange={(e) => setNewModel(e.target.value)} className="flex-grow bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="Model name, e.g. llama3.1:8b" />
+                        <button type="button" onClick={handleAddModel} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">Add Model</button>
+                    </div>
                 </FormField>
                 <div className="pt-4 flex justify-end items-center space-x-4">
                     <button type="button" onClick={onClose} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
-import type { AppConfig, Provider } from '../types';
+import type { AppConfig, GenerationLimits, GenerationSettings, Persona, PriceTable, PromptScript, Provider } from '../types';
+import { providerRegistry, getProviderAdapter, limitGenerationSettings, webSearchVariant } from '../services/providers';
+import { defaultConcurrencySettings } from '../services/taskScheduler';
+import { defaultCacheSettings } from '../services/responseCache';
+import { estimateRunCost, formatCost, formatTokens } from '../services/pricing';
+import { expandPromptTemplates, type VariableValues } from '../utils/promptTemplates';
 
 interface SetupFormProps {
   onStartAnalysis: (config: Omit<AppConfig, 'apiKeys'>) => void;
   apiKeysConfigured: boolean;
+  priceTable: PriceTable;
 }
 
 const FormField: React.FC<{ label: string; description: string; children: React.ReactNode }> = ({ label, description, children }) => (
@@ -14,34 +20,157 @@ const FormField: React.FC<{ label: string; description: string; children: React.
     </div>
 );
 
-const providerDetails: Record<Provider, { name: string, requiresKey: boolean, requiresEndpoint?: boolean }> = {
-    gemini: { name: 'Google Gemini', requiresKey: true },
-    openai: { name: 'OpenAI', requiresKey: true },
-    perplexity: { name: 'Perplexity', requiresKey: true },
-    copilot: { name: 'Copilot / Azure', requiresKey: true, requiresEndpoint: true },
-};
+const defaultModels: Partial<Record<Provider, string>> = Object.fromEntries(providerRegistry.map(p => [p.id, p.defaultModel]));
 
-const modelOptions: Partial<Record<Provider, string[]>> = {
-    gemini: ['gemini-2.5-flash'],
-    openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo'],
-    perplexity: ['llama-3-sonar-large-32k-online', 'llama-3-sonar-small-32k-online', 'sonar', 'sonar pro', 'sonar reasoning', 'sonar reasoning pro', 'sonar deep research', 'r1-1776'],
-};
+// Web search runs as a separate provider entry, so 'both' compares grounded and plain answers.
+type WebSearchMode = 'off' | 'on' | 'both';
+
+const parseAliasList = (value: string): string[] => value.split(',').map(a => a.trim()).filter(Boolean);
+
+// One competitor per line, optionally followed by its aliases: `Widen Collective: Widen, Acquia DAM`.
+function parseCompetitors(value: string): { name: string; aliases: string[] }[] {
+    return value.split('\n').map(line => {
+        const [name, aliases = ''] = line.split(/:(.*)/s);
+        return { name: name.trim(), aliases: parseAliasList(aliases) };
+    }).filter(c => c.name);
+}
 
-const defaultModels: Partial<Record<Provider, string>> = {
-    gemini: 'gemini-2.5-flash',
-    openai: 'gpt-4o-mini',
-    perplexity: 'llama-3-sonar-large-32k-online',
-    copilot: 'gpt-4o'
+// One prompt per line. Lines starting with `>` are follow-ups, asked after the prompt above them in the same chat.
+// Every prompt line starts its own script, even when another script opens with the same question.
+function parsePromptScripts(value: string): PromptScript[] {
+    const scripts: PromptScript[] = [];
+    value.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+        const current = scripts[scripts.length - 1];
+        if (!line.startsWith('>')) {
+            scripts.push({ prompt: line, followUps: [] });
+        } else if (current && line.slice(1).trim()) {
+            current.followUps.push(line.slice(1).trim());
+        }
+    });
+    return scripts;
+}
+
+// One template variable per line with its values: `segment: startups, enterprises`.
+function parseVariableLists(value: string): VariableValues {
+    return Object.fromEntries(value.split('\n').map(line => {
+        const [name, values = ''] = line.split(/:(.*)/s);
+        return [name.trim(), parseAliasList(values)] as const;
+    }).filter(([name, values]) => name && values.length > 0));
+}
+
+const emptyPersona = (): Persona => ({ name: '', systemPrompt: '', language: '', country: '' });
+
+// Results are told apart by persona name, so names are made unique: a repeated name gets a number
+// suffix, and unnamed personas with a system prompt get the first free `Persona n`. Completely empty
+// rows are dropped.
+function cleanPersonas(personas: Persona[]): Persona[] {
+    const filled = personas.filter(p => p.name.trim() || p.systemPrompt.trim());
+    const used = new Set<string>();
+    const claim = (first: string, numbered: (n: number) => string) => {
+        let name = first;
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = numbered(n);
+        used.add(name.toLowerCase());
+        return name;
+    };
+    // Typed names are claimed first, so a generated name never takes one the user chose.
+    const typedNames = filled.map(p => p.name.trim() ? claim(p.name.trim(), n => `${p.name.trim()} (${n})`) : '');
+    return filled
+        .map((p, i) => ({
+            name: typedNames[i] || claim(`Persona ${i + 1}`, n => `Persona ${n}`),
+            systemPrompt: p.systemPrompt.trim(),
+            ...(p.language?.trim() ? { language: p.language.trim() } : {}),
+            ...(p.country?.trim() ? { country: p.country.trim() } : {}),
+        }));
+}
+
+const PersonaEditor: React.FC<{ personas: Persona[]; onChange: (personas: Persona[]) => void }> = ({ personas, onChange }) => {
+    const update = (index: number, field: keyof Persona, value: string) =>
+        onChange(personas.map((p, i) => i === index ? { ...p, [field]: value } : p));
+    const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition";
+
+    return (
+        <div className="space-y-3">
+            {personas.map((persona, i) => (
+                <div key={i} className="bg-gray-800 p-3 rounded-lg border border-gray-600 space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <input type="text" value={persona.name} onChange={(e) => update(i, 'name', e.target.value)} className={inputClass} placeholder="Name, e.g. Dutch procurement manager" aria-label="Persona name" />
+                        <input type="text" value={persona.language || ''} onChange={(e) => update(i, 'language', e.target.value)} className={inputClass} placeholder="Language, e.g. Dutch" aria-label="Persona language" />
+                        <input type="text" value={persona.country || ''} onChange={(e) => update(i, 'country', e.target.value)} className={inputClass} placeholder="Country, e.g. Netherlands" aria-label="Persona country" />
+                    </div>
+                    <textarea value={persona.systemPrompt} onChange={(e) => update(i, 'systemPrompt', e.target.value)} className={`${inputClass} h-20`} placeholder="System prompt, e.g. You are assisting a procurement manager at a mid-sized Dutch retailer." aria-label="Persona system prompt" />
+                    <button type="button" onClick={() => onChange(personas.filter((_, j) => j !== i))} className="text-xs text-red-400 hover:text-red-300">Remove persona</button>
+                </div>
+            ))}
+            <button type="button" onClick={() => onChange([...personas, emptyPersona()])} className="text-sm text-green-400 hover:text-green-300">+ Add persona</button>
+        </div>
+    );
 };
 
+// Generation settings as typed; empty fields use the provider's defaults.
+type GenerationInputs = Partial<Record<keyof GenerationSettings, string>>;
+
+// The allowed range of each field comes from the selected model's generation limits.
+const generationFields: { key: keyof GenerationSettings; label: string; step: string }[] = [
+    { key: 'temperature', label: 'Temperature', step: '0.1' },
+    { key: 'topP', label: 'Top-p', step: '0.05' },
+    { key: 'maxTokens', label: 'Max tokens', step: '1' },
+    { key: 'seed', label: 'Seed', step: '1' },
+];
 
-export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis, apiKeysConfigured }) => {
+// Values outside the model's limits are clamped, and settings it does not accept are dropped.
+function parseGeneration(inputs: GenerationInputs = {}, limits: GenerationLimits): GenerationSettings {
+    return limitGenerationSettings(Object.fromEntries(generationFields
+        .map(({ key }) => [key, inputs[key]?.trim() ? Number(inputs[key]) : undefined])
+        .filter(([, value]) => value !== undefined && Number.isFinite(value))), limits);
+}
+
+const GenerationSettingsFields: React.FC<{ providerId: Provider; inputs: GenerationInputs; limits: GenerationLimits; onChange: (inputs: GenerationInputs) => void }> = ({ providerId, inputs, limits, onChange }) => (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
+        {generationFields.map(({ key, label, step }) => {
+            const range = limits[key];
+            const disabled = !range;
+            return (
+                <div key={key}>
+                    <label htmlFor={`${key}-${providerId}`} className="block text-xs text-gray-400 mb-1">{label}</label>
+                    <input
+                        id={`${key}-${providerId}`}
+                        type="number"
+                        min={range?.min}
+                        max={range?.max}
+                        step={step}
+                        value={disabled ? '' : inputs[key] || ''}
+                        disabled={disabled}
+                        onChange={(e) => onChange({ ...inputs, [key]: e.target.value })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition disabled:opacity-50"
+                        placeholder={disabled ? 'Not supported' : 'Default'}
+                    />
+                </div>
+            );
+        })}
+    </div>
+);
+
+export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis, apiKeysConfigured, priceTable }) => {
   const [clientName, setClientName] = useState<string>('');
+  const [clientAliases, setClientAliases] = useState<string>('');
+  const [clientDomain, setClientDomain] = useState<string>('');
   const [competitors, setCompetitors] = useState<string>('');
   const [prompts, setPrompts] = useState<string>('');
+  const [templateVariables, setTemplateVariables] = useState<string>('');
   const [additionalQuestions, setAdditionalQuestions] = useState<string>('');
-  const [selectedProviders, setSelectedProviders] = useState<Provider[]>(['gemini']);
-  const [models, setModels] = useState<Partial<Record<Provider, string>>>({ gemini: defaultModels.gemini });
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [batchAdditionalQuestions, setBatchAdditionalQuestions] = useState<boolean>(true);
+  const [selectedProviders, setSelectedProviders] = useState<Provider[]>([providerRegistry[0].id]);
+  const [models, setModels] = useState<Partial<Record<Provider, string>>>({ [providerRegistry[0].id]: providerRegistry[0].defaultModel });
+  const [generationInputs, setGenerationInputs] = useState<Partial<Record<Provider, GenerationInputs>>>({});
+  const [webSearchModes, setWebSearchModes] = useState<Partial<Record<Provider, WebSearchMode>>>({});
+  const [overallConcurrency, setOverallConcurrency] = useState<number>(defaultConcurrencySettings.overall);
+  const [providerConcurrency, setProviderConcurrency] = useState<Partial<Record<Provider, number>>>({});
+  const [samplesPerPrompt, setSamplesPerPrompt] = useState<number>(1);
+  const [cacheTtlHours, setCacheTtlHours] = useState<number>(defaultCacheSettings.ttlHours);
+  const [forceFresh, setForceFresh] = useState<boolean>(false);
+  const [judgeProvider, setJudgeProvider] = useState<Provider | ''>('');
+  const [judgeModel, setJudgeModel] = useState<string>('');
 
 
   const handleProviderToggle = (provider: Provider) => {
@@ -60,20 +189,65 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis, apiKeysCo
     setModels(prev => ({ ...prev, [provider]: value }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onStartAnalysis({
-      providers: selectedProviders,
-      models: models,
+  const handleJudgeProviderChange = (provider: Provider | '') => {
+    setJudgeProvider(provider);
+    setJudgeModel(provider ? getProviderAdapter(provider).defaultModel : '');
+  };
+
+  const handleProviderConcurrencyChange = (provider: Provider, value: string) => {
+    setProviderConcurrency(prev => ({ ...prev, [provider]: Math.max(1, parseInt(value, 10) || 1) }));
+  };
+
+  const { missingVariables, ...expandedPrompts } = expandPromptTemplates(parsePromptScripts(prompts), parseVariableLists(templateVariables));
+  const isTemplated = expandedPrompts.prompts.some(script => script.variables);
+
+  const buildConfig = (): Omit<AppConfig, 'apiKeys'> => {
+    const competitorEntries = parseCompetitors(competitors);
+    const aliases: AppConfig['aliases'] = Object.fromEntries(competitorEntries.filter(c => c.aliases.length > 0).map(c => [c.name, c.aliases]));
+    if (parseAliasList(clientAliases).length > 0) aliases[clientName.trim()] = parseAliasList(clientAliases);
+    const providers = selectedProviders.flatMap(p => {
+      const mode = getProviderAdapter(p).supportsWebSearch ? webSearchModes[p] || 'off' : 'off';
+      return mode === 'on' ? [webSearchVariant(p)] : mode === 'both' ? [p, webSearchVariant(p)] : [p];
+    });
+    return {
+      providers,
+      models: Object.fromEntries(providers.map(p => [p, models[getProviderAdapter(p).id]])),
+      // Web search variants share their provider's settings.
+      generation: Object.fromEntries(providers.map(p => {
+        const adapter = getProviderAdapter(p);
+        return [p, parseGeneration(generationInputs[adapter.id], adapter.generationLimits(models[adapter.id] || adapter.defaultModel))];
+      }).filter(([, settings]) => Object.keys(settings).length > 0)),
+      concurrency: {
+        overall: overallConcurrency,
+        perProvider: Object.fromEntries(selectedProviders.map(p => [p, providerConcurrency[p] ?? getProviderAdapter(p).defaultConcurrency])),
+      },
+      samplesPerPrompt,
+      judge: judgeProvider ? { provider: judgeProvider, model: judgeModel.trim() } : undefined,
       clientName: clientName.trim(),
-      competitors: competitors.split('\n').map(c => c.trim()).filter(Boolean),
-      prompts: prompts.split('\n').map(p => p.trim()).filter(Boolean),
+      clientDomain: clientDomain.trim() || undefined,
+      competitors: competitorEntries.map(c => c.name),
+      aliases,
+      ...expandedPrompts,
       additionalQuestions: additionalQuestions.split('\n').map(q => q.trim()).filter(Boolean),
-    });
+      batchAdditionalQuestions,
+      priceTable,
+      cache: { ttlHours: cacheTtlHours, forceFresh },
+      personas: cleanPersonas(personas),
+    };
   };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onStartAnalysis(buildConfig());
+  };
+
+  const estimate = estimateRunCost(buildConfig(), priceTable);
   
   const isSubmitDisabled = !clientName || !competitors || !prompts || selectedProviders.length === 0 || 
-    selectedProviders.some(p => !models[p]) || !apiKeysConfigured;
+    selectedProviders.some(p => !models[p] && !getProviderAdapter(p).modelCredentialKey) || !apiKeysConfigured ||
+    (!!judgeProvider && !judgeModel.trim() && !getProviderAdapter(judgeProvider).modelCredentialKey);
+
+  const judgeAdapter = judgeProvider ? getProviderAdapter(judgeProvider) : null;
 
   return (
     <div className="max-w-3xl mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
@@ -93,41 +267,61 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis, apiKeysCo
             <h3 className="text-xl font-semibold mb-4 text-gray-100">LLM Providers & Models</h3>
              <FormField label="Select Providers" description="Choose which AI models to use for the analysis. You can select multiple.">
                 <div className="grid grid-cols-2 gap-3">
-                  {(Object.keys(providerDetails) as Provider[]).map(p => (
+                  {providerRegistry.map(({ id: p, name }) => (
                     <label key={p} className={`flex items-center space-x-3 p-3 rounded-lg border-2 transition-colors cursor-pointer ${selectedProviders.includes(p) ? 'border-green-500 bg-green-900/30' : 'border-gray-600 bg-gray-800 hover:bg-gray-700'}`}>
                       <input type="checkbox" checked={selectedProviders.includes(p)} onChange={() => handleProviderToggle(p)} className="h-5 w-5 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
-                      <span className="font-medium text-gray-200">{providerDetails[p].name}</span>
+                      <span className="font-medium text-gray-200">{name}</span>
                     </label>
                   ))}
                 </div>
             </FormField>
             <div className="space-y-4 mt-4">
-              {selectedProviders.includes('gemini') && (
-                    <FormField label="Gemini Model" description="Select the model for analysis.">
-                        <select value={models.gemini || ''} onChange={(e) => handleModelChange('gemini', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.gemini?.map(m => <option key={m} value={m}>{m}</option>)}
-                        </select>
-                    </FormField>
-              )}
-              {selectedProviders.includes('openai') && (
-                    <FormField label="OpenAI Model" description="Select the model for analysis.">
-                        <select value={models.openai || ''} onChange={(e) => handleModelChange('openai', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.openai?.map(m => <option key={m} value={m}>{m}</option>)}
-                        </select>
+              {providerRegistry.filter(p => selectedProviders.includes(p.id)).map(p => (
+                    <FormField key={p.id} label={p.modelLabel} description={p.modelDescription}>
+                        {p.modelCredentialKey ? null : p.models.length > 0 ? (
+                            <select value={models[p.id] || ''} onChange={(e) => handleModelChange(p.id, e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                                {p.models.map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                        ) : (
+                            <input type="text" value={models[p.id] || ''} onChange={(e) => handleModelChange(p.id, e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={`e.g., ${p.defaultModel}`} required />
+                        )}
+                        {p.supportsWebSearch && (
+                            <div className="flex items-center space-x-3 mt-2">
+                                <label htmlFor={`web-search-${p.id}`} className="text-sm text-gray-400">Grounded / web search</label>
+                                <select id={`web-search-${p.id}`} value={webSearchModes[p.id] || 'off'} onChange={(e) => setWebSearchModes(prev => ({ ...prev, [p.id]: e.target.value as WebSearchMode }))} className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                                    <option value="off">Off</option>
+                                    <option value="on">On</option>
+                                    <option value="both">Both (compare grounded and plain answers)</option>
+                                </select>
+                            </div>
+                        )}
+                        <GenerationSettingsFields
+                            providerId={p.id}
+                            inputs={generationInputs[p.id] || {}}
+                            limits={p.generationLimits(models[p.id] || p.defaultModel)}
+                            onChange={(inputs) => setGenerationInputs(prev => ({ ...prev, [p.id]: inputs }))}
+                        />
                     </FormField>
-              )}
-              {selectedProviders.includes('perplexity') && (
-                     <FormField label="Perplexity Model" description="Select the model for analysis.">
-                        <select value={models.perplexity || ''} onChange={(e) => handleModelChange('perplexity', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
-                            {modelOptions.perplexity?.map(m => <option key={m} value={m}>{m}</option>)}
+              ))}
+            </div>
+            <div className="mt-6 pt-6 border-t border-gray-700">
+                <FormField label="Judge Model" description="Grades every answer for brands and sentiment and answers the additional questions. A single judge scores all providers by the same standard; otherwise each provider grades its own answers.">
+                    <div className="grid grid-cols-2 gap-3">
+                        <select value={judgeProvider} onChange={(e) => handleJudgeProviderChange(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                            <option value="">Each provider grades itself</option>
+                            {providerRegistry.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                         </select>
-                    </FormField>
-              )}
-              {selectedProviders.includes('copilot') && (
-                    <FormField label="Azure/Copilot Deployment Name" description="The 'model' name of your deployment.">
-                        <input type="text" value={models.copilot || ''} onChange={(e) => handleModelChange('copilot', e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., gpt-4o-deployment" required />
-                    </FormField>
-              )}
+                        {judgeAdapter && (judgeAdapter.modelCredentialKey ? (
+                            <p className="text-sm text-gray-400 self-center">Uses the model configured in Settings.</p>
+                        ) : judgeAdapter.models.length > 0 ? (
+                            <select value={judgeModel} onChange={(e) => setJudgeModel(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+                                {judgeAdapter.models.map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                        ) : (
+                            <input type="text" value={judgeModel} onChange={(e) => setJudgeModel(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder={`e.g., ${judgeAdapter.defaultModel}`} required />
+                        ))}
+                    </div>
+                </FormField>
             </div>
         </div>
 
@@ -135,18 +329,91 @@ export const SetupForm: React.FC<SetupFormProps> = ({ onStartAnalysis, apiKeysCo
           <input type="text" value={clientName} onChange={(e) => setClientName(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., Bynder" required />
         </FormField>
         
-        <FormField label="Competitor Brands" description="List each competitor on a new line.">
-          <textarea value={competitors} onChange={(e) => setCompetitors(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., Canto&#x0a;Widen Collective&#x0a;Brandfolder" required />
+        <FormField label="Client Aliases" description="Optional. Other names and product names of your brand, separated by commas. Mentions of these count towards your brand.">
+          <input type="text" value={clientAliases} onChange={(e) => setClientAliases(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., Bynder DAM, Bynder Brand Portal" />
+        </FormField>
+
+        <FormField label="Client Website" description="Optional. Your domain, to check whether answers cite your own site as a source.">
+          <input type="text" value={clientDomain} onChange={(e) => setClientDomain(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., bynder.com" />
+        </FormField>
+
+        <FormField label="Competitor Brands" description="List each competitor on a new line. Add aliases after a colon, separated by commas, so they are counted as the same brand.">
+          <textarea value={competitors} onChange={(e) => setCompetitors(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., Canto&#x0a;Widen Collective: Widen, Acquia DAM&#x0a;Brandfolder" required />
+        </FormField>
+
+        <FormField label="Prompts" description="List each search prompt on a new line. Start a line with > to ask it as a follow-up to the prompt above, in the same chat. Use {{variable}} placeholders to turn a prompt into a template.">
+          <textarea value={prompts} onChange={(e) => setPrompts(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-32 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., What is the best DAM system?&#x0a;> Which is cheapest for 50 users?&#x0a;Compare DAM systems for enterprise companies" required />
         </FormField>
 
-        <FormField label="Prompts" description="List each search prompt on a new line.">
-          <textarea value={prompts} onChange={(e) => setPrompts(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-32 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., What is the best DAM system?&#x0a;Compare DAM systems for enterprise companies" required />
+        <FormField label="Template Variables" description="Optional. One variable per line with its values, separated by commas. Each template is run once for every combination of its variables' values.">
+          <textarea value={templateVariables} onChange={(e) => setTemplateVariables(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., category: DAM system, PIM tool&#x0a;segment: startups, enterprises" />
+          {isTemplated && (
+            <p className="text-sm text-gray-400 mt-2">The templates expand to {expandedPrompts.prompts.length} prompts.</p>
+          )}
+          {missingVariables.length > 0 && (
+            <p className="text-sm text-yellow-400 mt-2">No values for {missingVariables.map(name => `{{${name}}}`).join(', ')}; these placeholders are sent as they are.</p>
+          )}
         </FormField>
         
+        <FormField label="Personas" description="Optional. Ask every prompt once per persona, with its system prompt and its language and country hints, to see how answers differ by audience.">
+          <PersonaEditor personas={personas} onChange={setPersonas} />
+        </FormField>
+
         <FormField label="Additional Analysis Questions" description="Optional. Ask specific questions about each LLM response. List each question on a new line.">
           <textarea value={additionalQuestions} onChange={(e) => setAdditionalQuestions(e.target.value)} className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 h-24 focus:ring-2 focus:ring-green-500 focus:outline-none transition" placeholder="e.g., How are the mentioned prices in comparison with competition?&#x0a;What are the USPs in comparison with the mentioned competitors?" />
+          <label className="flex items-center space-x-3 mt-3 cursor-pointer">
+            <input type="checkbox" checked={batchAdditionalQuestions} onChange={(e) => setBatchAdditionalQuestions(e.target.checked)} className="h-5 w-5 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+            <span className="text-sm text-gray-300">Answer all questions in one request per response. Falls back to one request per question if the combined answer cannot be read.</span>
+          </label>
         </FormField>
 
+        <div className="bg-gray-900/50 p-6 rounded-lg border border-gray-700 space-y-4">
+            <h3 className="text-xl font-semibold text-gray-100">Run Settings</h3>
+            <FormField label="Samples per Prompt" description="LLM answers vary between calls. Ask each prompt several times per provider to report mention rates with confidence intervals instead of a single draw.">
+                <input type="number" min={1} max={20} value={samplesPerPrompt} onChange={(e) => setSamplesPerPrompt(Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)))} className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+            </FormField>
+            <FormField label="Response Cache" description="Answers and analyses from earlier runs are reused when the provider, model, prompt and parameters match, so re-running with a changed brand list only re-runs the analysis. Set the lifetime to 0 to turn the cache off.">
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center space-x-3 bg-gray-800 p-3 rounded-lg border border-gray-600">
+                        <span className="text-gray-200">Reuse results up to</span>
+                        <input type="number" min={0} value={cacheTtlHours} onChange={(e) => setCacheTtlHours(Math.max(0, parseInt(e.target.value, 10) || 0))} className="w-20 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+                        <span className="text-gray-200">hours old</span>
+                    </label>
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                        <input type="checkbox" checked={forceFresh} onChange={(e) => setForceFresh(e.target.checked)} className="h-5 w-5 rounded bg-gray-700 border-gray-500 text-green-600 focus:ring-green-500" />
+                        <span className="text-gray-300">Force fresh answers</span>
+                    </label>
+                </div>
+            </FormField>
+            <FormField label="Parallel Requests" description="Maximum number of API requests in flight at once, overall and per provider. Lower these if you hit rate limits.">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="flex items-center justify-between space-x-3 bg-gray-800 p-3 rounded-lg border border-gray-600">
+                        <span className="text-gray-200">Overall</span>
+                        <input type="number" min={1} value={overallConcurrency} onChange={(e) => setOverallConcurrency(Math.max(1, parseInt(e.target.value, 10) || 1))} className="w-20 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+                    </label>
+                    {providerRegistry.filter(p => selectedProviders.includes(p.id)).map(p => (
+                        <label key={p.id} className="flex items-center justify-between space-x-3 bg-gray-800 p-3 rounded-lg border border-gray-600">
+                            <span className="text-gray-200">{p.name}</span>
+                            <input type="number" min={1} value={providerConcurrency[p.id] ?? p.defaultConcurrency} onChange={(e) => handleProviderConcurrencyChange(p.id, e.target.value)} className="w-20 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-green-500 focus:outline-none transition" />
+                        </label>
+                    ))}
+                </div>
+            </FormField>
+        </div>
+
+        {prompts.trim() && selectedProviders.length > 0 && (
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 text-sm text-gray-300">
+                <p>
+                    <span className="font-semibold text-gray-100">Estimated cost: {formatCost(estimate.cost)}</span>
+                    {' '}for about {formatTokens(estimate.calls)} API calls and {formatTokens(estimate.inputTokens + estimate.outputTokens)} tokens.
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                    A rough estimate assuming medium-length answers.
+                    {estimate.unpricedModels.length > 0 && ` No price is set for ${estimate.unpricedModels.join(', ')}; add it in Settings.`}
+                </p>
+            </div>
+        )}
+
         <div className="pt-4">
             <button type="submit" className="w-full bg-green-600 hover:bg-green-700 text-white font-bold text-lg py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 disabled:bg-gray-600 disabled:cursor-not-allowed disabled:scale-100" disabled={isSubmitDisabled}>
                 Start Analysis
@@ -1,17 +1,13 @@
 import React from 'react';
-import type { AnalysisResult, Provider } from '../types';
-
-const providerNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
+import type { AnalysisResult, AppConfig, Provider } from '../types';
+import { getProviderDisplayName, getProviderShortName } from '../services/providers';
+import { formatPercent, formatInterval, pooledMentionRate, type BrandStats } from '../utils/brandStats';
+import { computeVisibilityKpis, formatIndex, formatNetSentiment, type VisibilityKpis } from '../utils/visibilityKpis';
 
 interface SummaryCardsProps {
+    brandStats: BrandStats[];
     results: AnalysisResult[];
-    clientName: string;
-    providers: Provider[];
+    config: AppConfig;
 }
 
 const StatCard: React.FC<{ title: string; value: string | number; description: string; icon: React.ReactNode }> = ({ title, value, description, icon }) => (
@@ -25,12 +21,6 @@ const StatCard: React.FC<{ title: string; value: string | number; description: s
     </div>
 );
 
-const MentionIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-    </svg>
-);
-
 const LeaderIcon = () => (
      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.196-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.783-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
@@ -44,55 +34,86 @@ const SearchIcon = () => (
 );
 
 
-export const SummaryCards: React.FC<SummaryCardsProps> = ({ results, clientName, providers }) => {
-    
-    const clientMentionsByProvider: Record<Provider, number> = { gemini: 0, openai: 0, perplexity: 0, copilot: 0 };
-    let totalClientMentions = 0;
+const KpiCard: React.FC<{ title: string; value: string; description: string; breakdown: { label: string; value: string }[] }> = ({ title, value, description, breakdown }) => (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+        <p className="text-sm text-gray-400">{title}</p>
+        <p className="text-3xl font-bold">{value}</p>
+        <p className="text-xs text-gray-500 mb-3">{description}</p>
+        {breakdown.length > 1 && (
+            <dl className="space-y-1 border-t border-gray-700 pt-3">
+                {breakdown.map(({ label, value }) => (
+                    <div key={label} className="flex justify-between text-sm">
+                        <dt className="text-gray-400">{label}</dt>
+                        <dd className="font-mono text-gray-200">{value}</dd>
+                    </div>
+                ))}
+            </dl>
+        )}
+    </div>
+);
 
-    results.forEach(result => {
-        result.providerResponses.forEach(pResponse => {
-            pResponse.brandAnalyses.forEach(analysis => {
-                if (analysis.brandName.toLowerCase() === clientName.toLowerCase()) {
-                    clientMentionsByProvider[pResponse.provider] += analysis.mentions;
-                }
-            });
-        });
-    });
+export const SummaryCards: React.FC<SummaryCardsProps> = ({ brandStats, results, config }) => {
+    const { clientName, providers, samplesPerPrompt } = config;
+    const clientStats = brandStats.find(b => b.isClient);
+    const pooled = pooledMentionRate(providers.map(p => clientStats?.byProvider[p]));
+    const kpis = computeVisibilityKpis(results, config);
+    const breakdown = (format: (k: VisibilityKpis) => string) => providers
+        .filter(p => kpis.byProvider[p])
+        .map(p => ({ label: getProviderShortName(p, config), value: format(kpis.byProvider[p]!) }));
 
-    totalClientMentions = Object.values(clientMentionsByProvider).reduce((sum, count) => sum + count, 0);
-    
     let topProvider: Provider | null = null;
-    let maxMentions = -1;
+    let maxIndex = 0;
 
-    if (providers.length > 0) {
-        for (const provider of providers) {
-            if (clientMentionsByProvider[provider] > maxMentions) {
-                maxMentions = clientMentionsByProvider[provider];
-                topProvider = provider;
-            }
+    for (const provider of providers) {
+        const providerKpis = kpis.byProvider[provider];
+        if (providerKpis && providerKpis.visibilityIndex > maxIndex) {
+            maxIndex = providerKpis.visibilityIndex;
+            topProvider = provider;
         }
     }
 
     return (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-            <StatCard 
-                title={`${clientName} Mentions`}
-                value={totalClientMentions}
-                description="Total mentions across all selected LLMs"
-                icon={<MentionIcon />}
-            />
-            <StatCard 
-                title="Prompts Analyzed"
-                value={results.length}
-                description={`Across ${providers.length} LLM provider(s)`}
-                icon={<SearchIcon />}
-            />
-             <StatCard 
-                title="Top Visibility On"
-                value={topProvider ? providerNames[topProvider] : 'N/A'}
-                description={topProvider ? `With ${maxMentions} mentions of ${clientName}` : 'No mentions found'}
-                icon={<LeaderIcon />}
-            />
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                <KpiCard
+                    title="Visibility Index"
+                    value={formatIndex(kpis.overall.visibilityIndex)}
+                    description={`0–100; combines whether ${clientName} is mentioned, its rank and its sentiment`}
+                    breakdown={breakdown(k => formatIndex(k.visibilityIndex))}
+                />
+                <KpiCard
+                    title="Share of Voice"
+                    value={formatPercent(kpis.overall.shareOfVoice)}
+                    description={`${clientName}'s share of all mentions of tracked brands`}
+                    breakdown={breakdown(k => formatPercent(k.shareOfVoice))}
+                />
+                <KpiCard
+                    title={`${clientName} Mention Rate`}
+                    value={formatPercent(pooled.rate)}
+                    description={pooled.samples > 0 ? `95% interval ${formatInterval(pooled.interval, formatPercent)}; ${pooled.totalMentions} mentions in ${pooled.samples} answers` : 'No successful answers'}
+                    breakdown={breakdown(k => formatPercent(k.mentionRate))}
+                />
+                <KpiCard
+                    title="Net Sentiment"
+                    value={formatNetSentiment(kpis.overall.netSentiment)}
+                    description="Positive minus negative answers, per 100 answers that mention the client"
+                    breakdown={breakdown(k => formatNetSentiment(k.netSentiment))}
+                />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <StatCard 
+                    title="Prompts Analyzed"
+                    value={results.length}
+                    description={`Across ${providers.length} LLM provider(s)${samplesPerPrompt > 1 ? `, ${samplesPerPrompt} samples each` : ''}`}
+                    icon={<SearchIcon />}
+                />
+                <StatCard 
+                    title="Top Visibility On"
+                    value={topProvider ? getProviderDisplayName(topProvider, config) : 'N/A'}
+                    description={topProvider ? `Visibility index ${formatIndex(maxIndex)}; mentions ${clientName} in ${formatPercent(kpis.byProvider[topProvider]!.mentionRate)} of answers` : 'No mentions found'}
+                    icon={<LeaderIcon />}
+                />
+            </div>
         </div>
     );
-};
\ No newline at end of file
+};
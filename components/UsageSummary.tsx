@@ -0,0 +1,57 @@
+import React from 'react';
+import type { AnalysisResult, AppConfig } from '../types';
+import { getProviderShortName } from '../services/providers';
+import { formatCost, formatTokens, summarizeUsage } from '../services/pricing';
+
+interface UsageSummaryProps {
+  results: AnalysisResult[];
+  config: AppConfig;
+}
+
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ results, config }) => {
+  const { total, byProvider } = summarizeUsage(results, config.priceTable);
+  if (total.calls === 0) return null;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 shadow-lg">
+      <h3 className="text-xl font-semibold mb-1 text-gray-100">Token Usage & Cost</h3>
+      <p className="text-xs text-gray-500 mb-4">As reported by each API. Grading calls by a judge model count towards the provider whose answer was graded.</p>
+      <table className="w-full text-left">
+        <thead>
+          <tr>
+            <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600">Provider</th>
+            <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Calls</th>
+            <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Input Tokens</th>
+            <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Output Tokens</th>
+            <th className="text-sm font-semibold text-gray-400 pb-2 border-b border-gray-600 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {config.providers.map(p => {
+            const usage = byProvider[p];
+            if (!usage) return null;
+            return (
+              <tr key={p} className="border-b border-gray-700">
+                <td className="py-2 text-gray-200">{getProviderShortName(p, config)}</td>
+                <td className="py-2 text-right text-gray-300 font-mono">{formatTokens(usage.calls)}</td>
+                <td className="py-2 text-right text-gray-300 font-mono">{formatTokens(usage.inputTokens)}</td>
+                <td className="py-2 text-right text-gray-300 font-mono">{formatTokens(usage.outputTokens)}</td>
+                <td className="py-2 text-right text-gray-300 font-mono">{formatCost(usage.cost)}</td>
+              </tr>
+            );
+          })}
+          <tr className="font-semibold">
+            <td className="pt-3 text-green-400">Total</td>
+            <td className="pt-3 text-right text-gray-100 font-mono">{formatTokens(total.calls)}</td>
+            <td className="pt-3 text-right text-gray-100 font-mono">{formatTokens(total.inputTokens)}</td>
+            <td className="pt-3 text-right text-gray-100 font-mono">{formatTokens(total.outputTokens)}</td>
+            <td className="pt-3 text-right text-green-400 font-mono">{formatCost(total.cost)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {total.unpricedModels.length > 0 && (
+        <p className="text-xs text-yellow-500 mt-3">No price is set for {total.unpricedModels.join(', ')}; their tokens are not included in the cost. Add them in Settings.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import type { AnalysisResult, AppConfig } from '../types';
+import { computeVisibilityKpis } from '../utils/visibilityKpis';
+import { filterByVariables, runVariables } from '../utils/promptTemplates';
+import { KpiBreakdownTable } from './KpiBreakdownTable';
+
+interface VariableBreakdownProps {
+  results: AnalysisResult[];
+  config: AppConfig;
+  selectedValues: Partial<Record<string, string>>; // Per variable; '' or unset for all values
+  onSelectValue: (variable: string, value: string) => void;
+}
+
+export const VariableBreakdown: React.FC<VariableBreakdownProps> = ({ results, config, selectedValues, onSelectValue }) => {
+  const variables = runVariables(config);
+  const [groupBy, setGroupBy] = useState<string>('');
+  if (variables.length === 0) return null;
+  const group = variables.find(v => v.name === groupBy) || variables[0];
+
+  return (
+    <KpiBreakdownTable
+      title="Breakdown by Template Variable"
+      description={`${config.clientName}'s visibility for each value of a prompt variable. Select a value to filter the whole dashboard.`}
+      labelHeader={group.name}
+      rows={group.values.map(value => ({
+        key: value,
+        label: value,
+        kpis: computeVisibilityKpis(filterByVariables(results, { [group.name]: value }), config).overall,
+      }))}
+      selectedKey={selectedValues[group.name] || ''}
+      onSelect={value => onSelectValue(group.name, value)}
+      controls={variables.length > 1 && (
+        <select value={group.name} onChange={(e) => setGroupBy(e.target.value)} aria-label="Group by variable" className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-green-500 focus:outline-none transition">
+          {variables.map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+        </select>
+      )}
+    />
+  );
+};
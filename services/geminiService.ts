@@ -1,219 +1,360 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { AppConfig, AnalysisResult, BrandAnalysis, AdditionalQuestionAnswer, Provider, LlmClients, ProviderResponse, Task } from '../types';
-
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
+import type { AnalysisStep, AppConfig, AnalysisResult, BrandAnalysis, AdditionalQuestionAnswer, ChatExchange, Citation, ConversationTurn, GenerationSettings, Provider, ProviderAdapter, ProviderResponse, ResponseSample, Task, TokenUsage, UsageRecord } from '../types';
+import { baseProvider, getProviderAdapter, getProviderName, isWebSearchVariant, limitGenerationSettings } from './providers';
+import { createRetryBudget, toProviderRequestError, withRetry, type RetryBudget, type RetryEvent } from './resilientRequest';
+import { createTaskScheduler } from './taskScheduler';
+import type { RunController } from './runController';
+import { checkpointKey, type CheckpointKey } from './runCheckpoints';
+import { cachedOrFetch, type ResponseCache } from './responseCache';
+import { personaInstructions, runPrompts, type RunPrompt } from './personas';
+import { countMentions } from '../utils/mentionCounter';
+import { createBrandResolver, describeBrand, mergeBrandAnalyses, trackedBrands } from '../utils/brandResolver';
+import { BrandAnalysisValidationError, validateBrandAnalyses, type ValidatedBrandAnalyses } from '../utils/brandAnalysisValidation';
+import { InvalidJsonError } from './providers/jsonReply';
+
+// Adapters that answer prompts, plus the judge's. Web search variants share their adapter's client,
+// retry budget and concurrency limit.
+const involvedProviders = (config: AppConfig): Provider[] =>
+    Array.from(new Set([...config.providers.map(baseProvider), ...(config.judge ? [config.judge.provider] : [])]));
 
 // --- Client Initializer ---
-function initializeClients(config: AppConfig): LlmClients {
-    const { providers, apiKeys } = config;
-    const clients: LlmClients = {
-        gemini: null,
-        openai: undefined,
-        perplexity: undefined,
-        copilot: undefined,
-    };
-    if (providers.includes('gemini')) {
-        const apiKey = apiKeys.gemini;
-        if (!apiKey) throw new Error("Google Gemini API Key is missing.");
-        clients.gemini = new GoogleGenAI({ apiKey });
-    }
-    if (providers.includes('openai') && apiKeys.openai) {
-        clients.openai = apiKeys.openai;
-    }
-    if (providers.includes('perplexity') && apiKeys.perplexity) {
-        clients.perplexity = apiKeys.perplexity;
-    }
-    if (providers.includes('copilot') && apiKeys.copilotKey && apiKeys.copilotEndpoint) {
-        clients.copilot = { key: apiKeys.copilotKey, endpoint: apiKeys.copilotEndpoint };
-    }
+function initializeClients(config: AppConfig): Partial<Record<Provider, unknown>> {
+    const clients: Partial<Record<Provider, unknown>> = {};
+    involvedProviders(config).forEach(provider => {
+        clients[provider] = getProviderAdapter(provider).createClient(config.apiKeys);
+    });
     return clients;
 }
 
 
-// --- Generic Fetch for OpenAI-Compatible APIs ---
-async function genericAIFetch(url: string, apiKey: string, body: object, headers: Record<string, string> = {}) {
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-            ...headers,
+// --- Analysis Logic ---
+
+const LIVE_TEXT_INTERVAL_MS = 250;
+
+const brandAnalysisSchema = {
+    type: 'object',
+    properties: {
+        brands: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    brandName: { type: 'string' },
+                    mentions: { type: 'integer' },
+                    sentiment: { type: 'string', enum: ['Positive', 'Neutral', 'Negative', 'Not Mentioned'] },
+                    rank: { type: 'integer' },
+                },
+                required: ['brandName', 'mentions', 'sentiment', 'rank'],
+            },
         },
-        body: JSON.stringify(body)
-    });
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(`API Error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
-    return response.json();
-}
+    },
+    required: ['brands'],
+};
 
-async function azureAIFetch(url: string, apiKey: string, body: object) {
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'api-key': apiKey,
+const additionalAnswersSchema = {
+    type: 'object',
+    properties: {
+        answers: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    questionNumber: { type: 'integer' },
+                    answer: { type: 'string' },
+                },
+                required: ['questionNumber', 'answer'],
+            },
         },
-        body: JSON.stringify(body)
-    });
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(`API Error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
-    return response.json();
+    },
+    required: ['answers'],
+};
+
+// Everything one provider call needs besides the prompt itself.
+interface ProviderCallContext {
+    provider: Provider; // The entry in `AppConfig.providers`, including its variant
+    adapter: ProviderAdapter;
+    client: unknown;
+    model: string;
+    endpoint?: string; // See `ProviderAdapter.endpoint`
+    generation?: GenerationSettings; // Sent with answer requests only
+    signal?: AbortSignal;
+    // Runs one API request through the scheduler and the retry layer.
+    call: <T>(request: () => Promise<T>) => Promise<T>;
+    cache?: ResponseCache;
+    // Receives the raw answer of a sample while it streams in.
+    onAnswerText?: (sampleIndex: number, text: string) => void;
 }
 
+// The generation settings sent with a provider's answers: only those the model accepts, within its
+// limits, and undefined when nothing is set, so answers cached without settings are still found.
+function answerGeneration(config: AppConfig, provider: Provider, adapter: ProviderAdapter, model: string): GenerationSettings | undefined {
+    const sent = limitGenerationSettings(config.generation[provider], adapter.generationLimits(model));
+    return Object.keys(sent).length > 0 ? sent : undefined;
+}
 
-// --- Analysis Logic per Provider ---
+// Folds aliases and near-duplicates into their canonical brand and adds the locally counted mentions.
+// Tracked brands the judge left out are added as 'Not Mentioned' with a warning, so a brand the judge
+// missed still shows up as a disagreement.
+function withLocalCounts(analyses: BrandAnalysis[], config: AppConfig, response: string, warnings: string[]): BrandAnalysis[] {
+    const tracked = trackedBrands(config);
+    const merged = mergeBrandAnalyses(analyses, createBrandResolver(config));
+    const missing = tracked
+        .filter(brand => !merged.some(a => a.brandName === brand.name))
+        .map((brand): BrandAnalysis => {
+            warnings.push(`The analysis left out "${brand.name}"; counted as not mentioned.`);
+            return { brandName: brand.name, mentions: 0, sentiment: 'Not Mentioned' };
+        });
+    const namesOf = (brandName: string) => {
+        const brand = tracked.find(b => b.name === brandName);
+        return brand ? [brand.name, ...brand.aliases] : [brandName];
+    };
+    return [...merged, ...missing].map(analysis => ({
+        ...analysis,
+        localMentions: countMentions(response, namesOf(analysis.brandName)),
+    }));
+}
 
-// GEMINI
-const analysisSchema = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { brandName: { type: Type.STRING }, mentions: { type: Type.INTEGER }, sentiment: { type: Type.STRING, enum: ['Positive', 'Neutral', 'Negative', 'Not Mentioned'] } }, required: ['brandName', 'mentions', 'sentiment'] } };
-async function runGeminiAnalysisForPrompt(prompt: string, config: AppConfig, client: GoogleGenAI, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-    try {
-        // 1. Get raw response
-        const rawResult = await client.models.generateContent({ model, contents: prompt });
-        const response = rawResult.text;
+// Sums the token usage of one provider response per step, provider and model.
+function createUsageTracker() {
+    const records: UsageRecord[] = [];
+    const track = (step: UsageRecord['step'], { adapter, model }: ProviderCallContext) => (usage: TokenUsage) => {
+        let record = records.find(r => r.step === step && r.provider === adapter.id && r.model === model);
+        if (!record) {
+            record = { step, provider: adapter.id, model, inputTokens: 0, outputTokens: 0, calls: 0 };
+            records.push(record);
+        }
+        record.inputTokens += usage.inputTokens;
+        record.outputTokens += usage.outputTokens;
+        record.calls++;
+    };
+    return { records, track };
+}
 
-        // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Ensure all brands from my list are in your JSON response. Text: --- ${response} ---`;
-        const analysisResult = await client.models.generateContent({ model, contents: analysisPrompt, config: { responseMimeType: "application/json", responseSchema: analysisSchema } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisResult.text);
+type UsageTracker = ReturnType<typeof createUsageTracker>;
 
-        // 3. Answer additional questions
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerResult = await client.models.generateContent({ model, contents: qPrompt });
-                return { question, answer: answerResult.text };
-            })
-        );
-        
-        return { provider: 'gemini', response, brandAnalyses, additionalAnswers };
-    } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Gemini error occurred.';
-        console.error("Gemini Analysis Error:", e);
-        return { provider: 'gemini', response: '', brandAnalyses: [], additionalAnswers: [], error };
-    }
+// Checks that a batched reply answers every question exactly once, and returns the answers in question order.
+function validateBatchedAnswers(data: unknown, questions: string[]): AdditionalQuestionAnswer[] {
+    const answers = (data as { answers?: unknown })?.answers;
+    if (!Array.isArray(answers)) throw new Error('The batched reply has no "answers" array.');
+    return questions.map((question, i) => {
+        const matches = answers.filter(a => Number(a?.questionNumber) === i + 1);
+        if (matches.length !== 1 || typeof matches[0].answer !== 'string' || !matches[0].answer.trim()) {
+            throw new Error(`The batched reply does not contain exactly one answer to question ${i + 1}.`);
+        }
+        return { question, answer: matches[0].answer };
+    });
 }
 
-// OPENAI
-async function runOpenAIAnalysisForPrompt(prompt: string, config: AppConfig, apiKey: string, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-     try {
-        // 1. Get raw response
-        const rawData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: prompt }] });
-        const response = rawData.choices[0].message.content;
-
-        // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a single JSON object with one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${response} ---`;
-        const analysisData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: analysisPrompt }], response_format: { type: "json_object" } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisData.choices[0].message.content).brands || [];
+// With batching on, all questions go out in one structured request. If that reply cannot be parsed
+// or validated, each question is asked on its own instead, and `warnings` receives the reason. HTTP and
+// network failures are not retried this way; they already went through the retry layer.
+async function answerAdditionalQuestions(questions: string[], response: string, config: AppConfig, judge: ProviderCallContext, usage: UsageTracker, warnings: string[]): Promise<{ answers: AdditionalQuestionAnswer[]; cached: boolean }> {
+    const { adapter, client, model, endpoint, signal, call, cache } = judge;
+    const onUsage = usage.track('questions', judge);
+    if (config.batchAdditionalQuestions && questions.length > 1) {
+        const numbered = questions.map((question, i) => `${i + 1}. ${question}`).join('\n');
+        const batchPrompt = `Based ONLY on the text provided below, answer each of the following questions. If the information is not in the text, state that in the answer. Return one entry per question under the key "answers", with its "questionNumber" and your "answer".\nQuestions:\n${numbered}\nText: --- ${response} ---`;
+        try {
+            // Only validated answers are cached, so a reply that needed the fallback is not reused.
+            const { value, cached } = await cachedOrFetch(cache, { step: 'questions', provider: adapter.id, endpoint, model, prompt: batchPrompt, schema: additionalAnswersSchema }, async () =>
+                validateBatchedAnswers(await call(() => adapter.extractJson(client, { model, prompt: batchPrompt, schema: additionalAnswersSchema, signal, onUsage })), questions));
+            return { answers: value, cached };
+        } catch (e) {
+            const error = toProviderRequestError(e);
+            if (signal?.aborted || error.status !== undefined || error.transient) throw e;
+            warnings.push(`The batched answers to the additional questions could not be used; each question was asked separately: ${error.message}`);
+        }
+    }
+    const results = await Promise.all(questions.map(async (question) => {
+        const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
+        const { value: answer, cached } = await cachedOrFetch(cache, { step: 'questions', provider: adapter.id, endpoint, model, prompt: qPrompt }, () =>
+            call(() => adapter.complete(client, { model, prompt: qPrompt, signal, onUsage })));
+        return { answer: { question, answer }, cached };
+    }));
+    return { answers: results.map(r => r.answer), cached: results.length > 0 && results.every(r => r.cached) };
+}
 
-        // 3. Answer additional questions
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerData = await genericAIFetch('https://api.openai.com/v1/chat/completions', apiKey, { model, messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
-        
-        return { provider: 'openai', response, brandAnalyses, additionalAnswers };
+const isParseFailure = (e: unknown): e is InvalidJsonError | BrandAnalysisValidationError =>
+    e instanceof InvalidJsonError || e instanceof BrandAnalysisValidationError;
+
+// Runs the brand analysis and validates the reply. A reply that is not JSON or has no usable brand
+// entries is sent back once, with the problem, for a corrected version. Repairs and coerced values
+// are returned as warnings; a reply that is still unusable fails the sample.
+async function analyzeBrands(analysisPrompt: string, judge: ProviderCallContext, usage: UsageTracker): Promise<ValidatedBrandAnalyses> {
+    const { adapter, client, model, signal, call } = judge;
+    const onUsage = usage.track('analysis', judge);
+    const extract = (prompt: string) => call(() => adapter.extractJson(client, { model, prompt, schema: brandAnalysisSchema, signal, onUsage }));
+    let reply: unknown;
+    try {
+        reply = await extract(analysisPrompt);
+        return validateBrandAnalyses(reply);
     } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown OpenAI error occurred.';
-        console.error("OpenAI Analysis Error:", e);
-        return { provider: 'openai', response: '', brandAnalyses: [], additionalAnswers: [], error };
+        if (!isParseFailure(e)) throw e;
+        const previous = e instanceof InvalidJsonError ? e.content : JSON.stringify(reply);
+        const repairPrompt = `${analysisPrompt}\n\nYour previous reply could not be used: ${e.message} Repair it and return only the corrected JSON. Previous reply: --- ${previous} ---`;
+        try {
+            const repaired = validateBrandAnalyses(await extract(repairPrompt));
+            return { brands: repaired.brands, warnings: [`The brand analysis was repaired after a failed parse: ${e.message}`, ...repaired.warnings] };
+        } catch (repairError) {
+            if (!isParseFailure(repairError)) throw repairError;
+            throw new Error(`The brand analysis could not be parsed, even after a repair request: ${repairError.message}`);
+        }
     }
 }
 
-// PERPLEXITY
-async function runPerplexityAnalysisForPrompt(prompt: string, config: AppConfig, apiKey: string, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-     try {
-        const rawData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: prompt }] });
-        const pResponse = rawData.choices[0].message.content;
-
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a valid JSON object inside a \`\`\`json code block. The JSON object should have one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${pResponse} ---`;
-        const analysisData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: analysisPrompt }]});
-        
-        const jsonMatch = analysisData.choices[0].message.content.match(/```json\n([\s\S]*?)\n```/);
-        const brandAnalyses: BrandAnalysis[] = jsonMatch ? JSON.parse(jsonMatch[1]).brands : [];
-
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${pResponse} ---`;
-                const answerData = await genericAIFetch('https://api.perplexity.ai/chat/completions', apiKey, { model, messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
-
-        return { provider: 'perplexity', response: pResponse, brandAnalyses, additionalAnswers };
+interface CachedAnswer {
+    text: string;
+    citations?: Citation[];
+}
 
-    } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Perplexity error occurred.';
-        console.error("Perplexity Analysis Error:", e);
-        return { provider: 'perplexity', response: '', brandAnalyses: [], additionalAnswers: [], error };
-    }
+// The answers of a conversation are analysed together as one text, separated like paragraphs.
+const TURN_SEPARATOR = '\n\n';
+
+// One turn's answer from `answerer`, through the answer cache. `history` holds the earlier turns of the
+// same chat and is part of the cache key, so a follow-up is only reused after the same conversation.
+async function answerTurn(prompt: string, history: ChatExchange[], system: string | undefined, answerer: ProviderCallContext, usage: UsageTracker, sampleIndex: number, onText?: (text: string) => void): Promise<CachedAnswer & { cached: boolean }> {
+    const { provider, adapter, client, model, endpoint, generation, signal, call, cache } = answerer;
+    const webSearch = isWebSearchVariant(provider);
+    const sentHistory = history.length > 0 ? history : undefined;
+    const { value: answer, cached } = await cachedOrFetch<CachedAnswer | string>(cache, { step: 'answer', provider, endpoint, model, generation, system, history: sentHistory, prompt, sample: sampleIndex }, async () => {
+        let citations: Citation[] | undefined;
+        const text = await call(() => adapter.complete(client, { model, prompt, history: sentHistory, system, generation, signal, onUsage: usage.track('answer', answerer), onText, onCitations: found => { citations = found; }, webSearch }));
+        return { text, ...(citations ? { citations } : {}) };
+    });
+    // Answers cached before sources were recorded are plain strings.
+    return typeof answer === 'string' ? { text: answer, cached } : { ...answer, cached };
 }
 
-// COPILOT / AZURE
-async function runCopilotAnalysisForPrompt(prompt: string, config: AppConfig, client: { key: string; endpoint: string }, model: string): Promise<ProviderResponse> {
-    const { clientName, competitors, additionalQuestions } = config;
-    const allBrands = [clientName, ...competitors];
-    const API_VERSION = '2024-02-01';
-    const url = `${client.endpoint}/openai/deployments/${model}/chat/completions?api-version=${API_VERSION}`;
+// The brand analysis of one text by `judge`, through the cache. `warnings` receives repairs, coerced
+// values and brands the analysis left out.
+async function analyzeResponse(response: string, config: AppConfig, judge: ProviderCallContext, usage: UsageTracker, warnings: string[]): Promise<{ brandAnalyses: BrandAnalysis[]; cached: boolean }> {
+    const allBrands = trackedBrands(config);
+    const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). Also give each mentioned brand its rank: its position in the answer's recommendations, i.e. its place in a numbered or ranked list, or otherwise the order in which the brands are first mentioned (1 = first). If a brand from my list (${allBrands.map(describeBrand).join('; ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions and rank 0. Count a mention of any of a brand's other names as a mention of that brand, and report it under the brand's main name. Ensure all brands from my list are in your JSON response, under the key "brands". Text: --- ${response} ---`;
+    // Cached analyses are validated again, and only what that finds is reported: repairs belong to the
+    // run that made them. Entries from before validation existed are raw replies; unusable ones are redone.
+    const { value: analysis, cached } = await cachedOrFetch(judge.cache, { step: 'analysis', provider: judge.adapter.id, endpoint: judge.endpoint, model: judge.model, prompt: analysisPrompt, schema: brandAnalysisSchema }, () =>
+        analyzeBrands(analysisPrompt, judge, usage), validateBrandAnalyses);
+    warnings.push(...analysis.warnings);
+    return { brandAnalyses: withLocalCounts(analysis.brands, config, response, warnings), cached };
+}
 
+// One independent answer to the prompt, with its own analysis and question answers.
+// The answer comes from `answerer`; the analysis and the additional questions are run by `judge`.
+// `sampleIndex` is part of the answer's cache key, so cached samples stay independent draws.
+// Follow-ups are asked in the same chat, one turn at a time. Each turn's answer is analysed on its own,
+// and all answers together make up the sample's response, analysis and question answers.
+async function runSampleForPrompt({ prompt, followUps, persona }: RunPrompt, config: AppConfig, answerer: ProviderCallContext, judge: ProviderCallContext, usage: UsageTracker, sampleIndex: number): Promise<ResponseSample> {
+    const { additionalQuestions } = config;
+    const fromCache: AnalysisStep[] = [];
     try {
-        // 1. Get raw response
-        const rawData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: prompt }] });
-        const response = rawData.choices[0].message.content;
-
-        // 2. Analyze response
-        const analysisPrompt = `Analyze the following text. Identify ALL brand names mentioned. For each, count mentions and determine sentiment ('Positive', 'Neutral', 'Negative'). If a brand from my list (${allBrands.join(', ')}) isn't mentioned, report it as 'Not Mentioned' with 0 mentions. Respond with a single JSON object with one key, "brands", which is an array of objects with keys "brandName", "mentions", and "sentiment". Text: --- ${response} ---`;
-        const analysisData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: analysisPrompt }], response_format: { type: "json_object" } });
-        const brandAnalyses: BrandAnalysis[] = JSON.parse(analysisData.choices[0].message.content).brands || [];
-        
+        // 1. Get raw responses
+        const system = persona ? personaInstructions(persona) : undefined;
+        const onText = answerer.onAnswerText && ((text: string) => answerer.onAnswerText!(sampleIndex, text));
+        const exchanges: (ChatExchange & { citations?: Citation[] })[] = [];
+        let answersCached = true;
+        for (const turnPrompt of [prompt, ...followUps]) {
+            const earlier = exchanges.map(exchange => exchange.response);
+            const onTurnText = onText && ((text: string) => onText([...earlier, text].join(TURN_SEPARATOR)));
+            const history = exchanges.map(({ prompt, response }) => ({ prompt, response }));
+            const { text, citations, cached } = await answerTurn(turnPrompt, history, system, answerer, usage, sampleIndex, onTurnText);
+            exchanges.push({ prompt: turnPrompt, response: text, ...(citations ? { citations } : {}) });
+            answersCached &&= cached;
+        }
+        if (answersCached) fromCache.push('answer');
+        const response = exchanges.map(exchange => exchange.response).join(TURN_SEPARATOR);
+        const allCitations = exchanges.flatMap(exchange => exchange.citations || []);
+        const citations = allCitations.length > 0 ? Array.from(new Map(allCitations.map(c => [c.url, c])).values()) : undefined;
+        onText?.(response); // Cached and non-streaming answers show up in full
+
+        // 2. Analyze response, and each turn of a conversation
+        const warnings: string[] = [];
+        const isConversation = exchanges.length > 1;
+        const [whole, ...turnAnalyses] = await Promise.all([
+            analyzeResponse(response, config, judge, usage, warnings),
+            ...(isConversation ? exchanges.map(async (exchange, i) => {
+                const turnWarnings: string[] = [];
+                const analysis = await analyzeResponse(exchange.response, config, judge, usage, turnWarnings);
+                warnings.push(...turnWarnings.map(warning => `Turn ${i + 1}: ${warning}`));
+                return analysis;
+            }) : []),
+        ]);
+        if (whole.cached && turnAnalyses.every(analysis => analysis.cached)) fromCache.push('analysis');
+        const turns: ConversationTurn[] | undefined = isConversation
+            ? exchanges.map((exchange, i) => ({ ...exchange, brandAnalyses: turnAnalyses[i].brandAnalyses }))
+            : undefined;
+
         // 3. Answer additional questions
-        const additionalAnswers: AdditionalQuestionAnswer[] = await Promise.all(
-            additionalQuestions.map(async (question) => {
-                const qPrompt = `Based ONLY on the text provided below, answer the question: "${question}". If the information is not in the text, state that. Text: --- ${response} ---`;
-                const answerData = await azureAIFetch(url, client.key, { messages: [{ role: 'user', content: qPrompt }] });
-                return { question, answer: answerData.choices[0].message.content };
-            })
-        );
-        
-        return { provider: 'copilot', response, brandAnalyses, additionalAnswers };
+        const { answers: additionalAnswers, cached: questionsCached } = await answerAdditionalQuestions(additionalQuestions, response, config, judge, usage, warnings);
+        if (questionsCached) fromCache.push('questions');
+
+        return {
+            response,
+            brandAnalyses: whole.brandAnalyses,
+            additionalAnswers,
+            ...(citations ? { citations } : {}),
+            ...(turns ? { turns } : {}),
+            ...(fromCache.length > 0 ? { fromCache } : {}),
+            ...(warnings.length > 0 ? { warnings: Array.from(new Set(warnings)) } : {}),
+        };
     } catch (e) {
-        const error = e instanceof Error ? e.message : 'An unknown Copilot/Azure error occurred.';
-        console.error("Copilot Analysis Error:", e);
-        return { provider: 'copilot', response: '', brandAnalyses: [], additionalAnswers: [], error };
+        const error = e instanceof Error ? e.message : `An unknown ${answerer.adapter.name} error occurred.`;
+        console.error(`${answerer.adapter.name} Analysis Error:`, e);
+        return { response: '', brandAnalyses: [], additionalAnswers: [], error };
+    }
+}
+
+// Samples the prompt `samplesPerPrompt` times. The response only fails when every sample failed.
+async function runProviderAnalysisForPrompt(prompt: RunPrompt, config: AppConfig, context: ProviderCallContext, judge: ProviderCallContext): Promise<ProviderResponse> {
+    const sampleCount = Math.max(1, config.samplesPerPrompt);
+    const usage = createUsageTracker();
+    let samples = await Promise.all(Array.from({ length: sampleCount }, (_, i) => runSampleForPrompt(prompt, config, context, judge, usage, i)));
+    if (context.signal?.aborted) {
+        samples = samples.filter(sample => !sample.error);
+    }
+    const successful = samples.filter(sample => !sample.error);
+    if (successful.length === 0) {
+        return { provider: context.provider, samples, error: samples[0]?.error || 'The analysis was cancelled.', usage: usage.records };
     }
+    return { provider: context.provider, samples, usage: usage.records };
 }
 
+export interface RunOptions {
+    controller?: RunController;
+    // Responses finished by an earlier, interrupted attempt at this run. Their tasks are not re-run.
+    completedResponses?: Map<CheckpointKey, ProviderResponse>;
+    // Called as soon as a provider response finishes without error, e.g. to checkpoint it.
+    onResponse?: (promptIndex: number, response: ProviderResponse) => void;
+    cache?: ResponseCache;
+}
 
 // --- Main Exported Function ---
-export async function runAnalysis(config: AppConfig, onProgress: (tasks: Task[]) => void): Promise<AnalysisResult[]> {
+// When the run is cancelled through the controller, the promise still resolves, with only the
+// provider responses that finished before cancellation (prompts without any are left out).
+export async function runAnalysis(config: AppConfig, onProgress: (tasks: Task[]) => void, options: RunOptions = {}): Promise<AnalysisResult[]> {
+    const { controller, completedResponses, onResponse, cache } = options;
+    const signal = controller?.signal;
     const clients = initializeClients(config);
+    const retryBudgets: Partial<Record<Provider, RetryBudget>> = {};
+    const perProviderLimits: Partial<Record<Provider, number>> = {};
+    involvedProviders(config).forEach(provider => {
+        const adapter = getProviderAdapter(provider);
+        retryBudgets[provider] = createRetryBudget(adapter.retryPolicy);
+        perProviderLimits[provider] = config.concurrency.perProvider[provider] ?? adapter.defaultConcurrency;
+    });
+    const scheduler = createTaskScheduler({ overall: config.concurrency.overall, perProvider: perProviderLimits }, controller);
 
+    const prompts = runPrompts(config);
     const tasks: Task[] = [];
-    config.prompts.forEach((prompt, pIndex) => {
+    prompts.forEach(({ prompt, followUps, persona }, pIndex) => {
       config.providers.forEach((provider) => {
         const modelName = config.models[provider] || 'default';
         const shortPrompt = prompt.length > 40 ? prompt.substring(0, 40) + '...' : prompt;
+        const sampleNote = config.samplesPerPrompt > 1 ? `, ${config.samplesPerPrompt} samples` : '';
+        const personaNote = persona ? ` as ${persona.name}` : '';
+        const turnNote = followUps.length > 0 ? ` +${followUps.length} follow-up${followUps.length > 1 ? 's' : ''}` : '';
         tasks.push({
           id: `prompt-${pIndex}-${provider}`,
-          description: `Analyzing "${shortPrompt}" with ${providerBaseNames[provider]} (${modelName})`,
-          status: 'pending',
+          description: `Analyzing "${shortPrompt}"${turnNote}${personaNote} with ${getProviderName(provider)} (${modelName}${sampleNote})`,
+          status: completedResponses?.has(checkpointKey(pIndex, provider)) ? 'completed' : 'pending',
         });
       });
     });
@@ -222,61 +363,124 @@ export async function runAnalysis(config: AppConfig, onProgress: (tasks: Task[])
     const updateTaskStatus = (taskId: string, status: Task['status'], error?: string) => {
         const taskIndex = tasks.findIndex(t => t.id === taskId);
         if (taskIndex !== -1) {
-          tasks[taskIndex].status = status;
+          tasks[taskIndex] = { ...tasks[taskIndex], status };
           if (error) tasks[taskIndex].error = error;
           onProgress([...tasks]);
         }
     };
 
-    const resultsByPrompt: AnalysisResult[] = [];
+    const recordRetry = (taskId: string, event: RetryEvent) => {
+        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        if (taskIndex !== -1) {
+          const task = tasks[taskIndex];
+          tasks[taskIndex] = {
+            ...task,
+            status: 'retrying',
+            retries: (task.retries || 0) + 1,
+            retryMessage: `${event.error.message} Retrying in ${Math.ceil(event.delayMs / 1000)}s (attempt ${event.attempt} of ${event.maxAttempts}).`,
+          };
+          onProgress([...tasks]);
+        }
+    };
 
-    for (const [pIndex, prompt] of config.prompts.entries()) {
-        const providerPromises = config.providers.map(async (provider) => {
-            const taskId = `prompt-${pIndex}-${provider}`;
+    // Parse problems of any sample are listed on the task, prefixed with the sample when there are several.
+    const recordWarnings = (taskId: string, response: ProviderResponse) => {
+        const warnings = response.samples.flatMap((sample, i) => [
+            ...(sample.warnings || []),
+            ...(sample.error && response.samples.length > 1 ? [`The sample failed: ${sample.error}`] : []),
+        ].map(warning => response.samples.length > 1 ? `Sample ${i + 1}: ${warning}` : warning));
+        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        if (taskIndex !== -1 && warnings.length > 0) {
+          tasks[taskIndex] = { ...tasks[taskIndex], warnings };
+        }
+    };
+
+    // Streamed text arrives many times per second, so progress updates for it are batched.
+    let liveTextFlush: ReturnType<typeof setTimeout> | null = null;
+    const updateLiveText = (taskId: string, sampleIndex: number, text: string) => {
+        const taskIndex = tasks.findIndex(t => t.id === taskId);
+        if (taskIndex === -1) return;
+        const liveText = [...(tasks[taskIndex].liveText || [])];
+        liveText[sampleIndex] = text;
+        tasks[taskIndex] = { ...tasks[taskIndex], liveText };
+        liveTextFlush ??= setTimeout(() => {
+            liveTextFlush = null;
+            onProgress([...tasks]);
+        }, LIVE_TEXT_INTERVAL_MS);
+    };
+
+    // A task stays 'pending' until the scheduler starts one of its requests, and a retrying
+    // task goes back to 'in_progress' when its next attempt gets a slot.
+    const markStarted = (taskId: string) => {
+        const task = tasks.find(t => t.id === taskId);
+        if (task && (task.status === 'pending' || task.status === 'retrying')) {
             updateTaskStatus(taskId, 'in_progress');
+        }
+    };
 
-            let providerFunction: () => Promise<ProviderResponse>;
-
-            switch(provider) {
-                case 'gemini':
-                    if (!clients.gemini || !config.models.gemini) throw new Error('Gemini client not initialized properly.');
-                    providerFunction = () => runGeminiAnalysisForPrompt(prompt, config, clients.gemini!, config.models.gemini!);
-                    break;
-                case 'openai':
-                    if (!clients.openai || !config.models.openai) throw new Error('OpenAI client not initialized properly.');
-                    providerFunction = () => runOpenAIAnalysisForPrompt(prompt, config, clients.openai!, config.models.openai!);
-                    break;
-                case 'perplexity':
-                    if (!clients.perplexity || !config.models.perplexity) throw new Error('Perplexity client not initialized properly.');
-                    providerFunction = () => runPerplexityAnalysisForPrompt(prompt, config, clients.perplexity!, config.models.perplexity!);
-                    break;
-                case 'copilot':
-                    if (!clients.copilot || !config.models.copilot) throw new Error('Copilot client not initialized properly.');
-                    providerFunction = () => runCopilotAnalysisForPrompt(prompt, config, clients.copilot!, config.models.copilot!);
-                    break;
-                default:
-                    const exhaustiveCheck: never = provider;
-                    throw new Error(`Unhandled provider: ${exhaustiveCheck}`);
-            }
+    // All prompts are queued at once; the scheduler's priority (the prompt index) keeps them roughly in order.
+    const resultsByPrompt = await Promise.all(prompts.map(async (runPrompt, pIndex) => {
+        const providerPromises = config.providers.map(async (provider) => {
+            const previous = completedResponses?.get(checkpointKey(pIndex, provider));
+            if (previous) return previous;
+
+            const taskId = `prompt-${pIndex}-${provider}`;
+            // Judge calls are scheduled and retried under the judge provider's limits, but still report on this task.
+            const callAs = (callProvider: Provider) => <T>(request: () => Promise<T>) => withRetry(
+                () => scheduler.schedule(callProvider, pIndex, () => {
+                    markStarted(taskId);
+                    return request();
+                }),
+                retryBudgets[callProvider]!,
+                (event) => recordRetry(taskId, event),
+                signal,
+            );
 
             try {
-                const response = await providerFunction();
+                const adapter = getProviderAdapter(provider);
+                const model = config.models[provider];
+                if (!model) throw new Error(`${adapter.name} model is not set.`);
+
+                const onAnswerText = (sampleIndex: number, text: string) => updateLiveText(taskId, sampleIndex, text);
+                const generation = answerGeneration(config, provider, adapter, model);
+                const context: ProviderCallContext = { provider, adapter, client: clients[adapter.id], model, endpoint: adapter.endpoint?.(config.apiKeys), generation, signal, call: callAs(adapter.id), cache, onAnswerText };
+                const judgeAdapter = config.judge && getProviderAdapter(config.judge.provider);
+                const judge: ProviderCallContext = config.judge && judgeAdapter
+                    ? { provider: config.judge.provider, adapter: judgeAdapter, client: clients[config.judge.provider], model: config.judge.model, endpoint: judgeAdapter.endpoint?.(config.apiKeys), signal, call: callAs(config.judge.provider), cache }
+                    : context;
+                const response = await runProviderAnalysisForPrompt(runPrompt, config, context, judge);
+                if (response.error && signal?.aborted) {
+                    updateTaskStatus(taskId, 'cancelled');
+                    return null;
+                }
+                recordWarnings(taskId, response);
                 if (response.error) {
                     updateTaskStatus(taskId, 'error', response.error);
                 } else {
                     updateTaskStatus(taskId, 'completed');
+                    onResponse?.(pIndex, response);
                 }
                 return response;
             } catch (e) {
+                if (signal?.aborted) {
+                    updateTaskStatus(taskId, 'cancelled');
+                    return null;
+                }
                 const errorMsg = e instanceof Error ? e.message : 'An unknown error occurred.';
                 updateTaskStatus(taskId, 'error', errorMsg);
-                return { provider, response: '', brandAnalyses: [], additionalAnswers: [], error: errorMsg };
+                return { provider, samples: [], error: errorMsg };
             }
         });
 
-        const providerResponses = await Promise.all(providerPromises);
-        resultsByPrompt.push({ prompt, providerResponses });
-    }
-
-    return resultsByPrompt;
-}
\ No newline at end of file
+        const providerResponses = (await Promise.all(providerPromises)).filter((r): r is ProviderResponse => r !== null);
+        return {
+            prompt: runPrompt.prompt,
+            ...(runPrompt.persona ? { persona: runPrompt.persona.name } : {}),
+            ...(runPrompt.variables ? { variables: runPrompt.variables } : {}),
+            providerResponses,
+        };
+    }));
+
+    if (liveTextFlush) clearTimeout(liveTextFlush);
+    return resultsByPrompt.filter(result => result.providerResponses.length > 0);
+}
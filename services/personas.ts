@@ -0,0 +1,24 @@
+import type { AppConfig, Persona, PromptScript } from '../types';
+
+// --- Personas ---
+// A run asks every prompt once per persona. Each (prompt, persona) pair is one run prompt; its index
+// in `runPrompts` is the prompt index used for tasks, scheduling priority and checkpoints.
+
+export interface RunPrompt extends PromptScript {
+    persona?: Persona;
+}
+
+export function runPrompts(config: Pick<AppConfig, 'prompts' | 'personas'>): RunPrompt[] {
+    const personas = config.personas || [];
+    if (personas.length === 0) return config.prompts.map(script => ({ ...script }));
+    return config.prompts.flatMap(script => personas.map(persona => ({ ...script, persona })));
+}
+
+// The system prompt for a persona: its own text plus the language and country hints.
+export function personaInstructions({ systemPrompt, language, country }: Persona): string {
+    return [
+        systemPrompt.trim(),
+        language ? `Always answer in ${language}.` : '',
+        country ? `The user is based in ${country}; take local availability, regulations and market into account.` : '',
+    ].filter(Boolean).join('\n');
+}
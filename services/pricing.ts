@@ -0,0 +1,128 @@
+import type { AnalysisResult, AppConfig, ModelPrice, PriceTable, Provider, TokenUsage, UsageRecord } from '../types';
+import { personaInstructions, runPrompts } from './personas';
+
+// --- Token Prices and Run Cost ---
+
+// List prices in USD per million tokens at the time of writing. Users override them in Settings;
+// overrides are stored in the `price_table` jsonb column of `profiles`.
+export const defaultPriceTable: PriceTable = {
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+    'gpt-4o-mini-search-preview': { inputPerMillion: 0.15, outputPerMillion: 0.6 }, // Plus a fee per search
+    'gpt-4o-search-preview': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'claude-sonnet-4-5': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-opus-4-1': { inputPerMillion: 15, outputPerMillion: 75 },
+    'claude-haiku-4-5': { inputPerMillion: 1, outputPerMillion: 5 },
+    'llama-3-sonar-large-32k-online': { inputPerMillion: 1, outputPerMillion: 1 },
+    'llama-3-sonar-small-32k-online': { inputPerMillion: 0.2, outputPerMillion: 0.2 },
+    'sonar': { inputPerMillion: 1, outputPerMillion: 1 },
+    'sonar pro': { inputPerMillion: 3, outputPerMillion: 15 },
+    'sonar reasoning': { inputPerMillion: 1, outputPerMillion: 5 },
+    'sonar reasoning pro': { inputPerMillion: 2, outputPerMillion: 8 },
+    'sonar deep research': { inputPerMillion: 2, outputPerMillion: 8 },
+    'r1-1776': { inputPerMillion: 2, outputPerMillion: 8 },
+};
+
+// Rough sizes used for the estimate before a run; real answers vary a lot.
+const CHARS_PER_TOKEN = 4;
+const ESTIMATED_ANSWER_TOKENS = 700;
+const ESTIMATED_INSTRUCTION_TOKENS = 150; // Analysis and question instructions around the answer text
+const ESTIMATED_TOKENS_PER_BRAND = 25;
+const ESTIMATED_QUESTION_ANSWER_TOKENS = 150;
+
+export const mergePriceTable = (overrides?: PriceTable | null): PriceTable => ({ ...defaultPriceTable, ...(overrides || {}) });
+
+export function costOf(usage: TokenUsage, price: ModelPrice | undefined): number | null {
+    if (!price) return null;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+export interface UsageTotals extends TokenUsage {
+    calls: number;
+    cost: number; // Only models with a known price
+    unpricedModels: string[];
+}
+
+const emptyTotals = (): UsageTotals => ({ inputTokens: 0, outputTokens: 0, calls: 0, cost: 0, unpricedModels: [] });
+
+function addRecord(totals: UsageTotals, record: TokenUsage & { model: string; calls: number }, priceTable: PriceTable): void {
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.calls += record.calls;
+    const cost = costOf(record, priceTable[record.model]);
+    if (cost === null) {
+        if (!totals.unpricedModels.includes(record.model)) totals.unpricedModels.push(record.model);
+    } else {
+        totals.cost += cost;
+    }
+}
+
+// Actual usage of a finished run. Judge calls count towards the provider whose answer they graded.
+export function summarizeUsage(results: AnalysisResult[], priceTable: PriceTable): { total: UsageTotals; byProvider: Partial<Record<Provider, UsageTotals>> } {
+    const total = emptyTotals();
+    const byProvider: Partial<Record<Provider, UsageTotals>> = {};
+    results.forEach(result => result.providerResponses.forEach(pResponse => {
+        (pResponse.usage || []).forEach((record: UsageRecord) => {
+            addRecord(total, record, priceTable);
+            addRecord(byProvider[pResponse.provider] ??= emptyTotals(), record, priceTable);
+        });
+    }));
+    return { total, byProvider };
+}
+
+// Estimate for a run that has not started yet, from the prompt lengths and rough answer sizes.
+export function estimateRunCost(config: Omit<AppConfig, 'apiKeys'>, priceTable: PriceTable): UsageTotals {
+    const totals = emptyTotals();
+    const brandCount = 1 + config.competitors.length;
+    const questionCount = config.additionalQuestions.length;
+    const batched = config.batchAdditionalQuestions && questionCount > 1;
+
+    runPrompts(config).forEach(({ prompt, followUps, persona }) => {
+        const system = persona ? personaInstructions(persona) : '';
+        const turns = [prompt, ...followUps];
+        config.providers.forEach(provider => {
+            const samples = Math.max(1, config.samplesPerPrompt);
+            const answerModel = config.models[provider] || provider; // Models set in Settings are not known yet
+            const judgeModel = config.judge ? config.judge.model || config.judge.provider : answerModel;
+            const answerTokens = Math.min(ESTIMATED_ANSWER_TOKENS, config.generation[provider]?.maxTokens ?? Infinity);
+            // Every turn resends the system prompt and the earlier turns.
+            const answerInputTokens = turns.reduce((sum, _, i) =>
+                sum + Math.ceil((system.length + turns.slice(0, i + 1).join('').length) / CHARS_PER_TOKEN) + i * answerTokens, 0);
+            const conversationTokens = turns.length * answerTokens;
+            const steps = [
+                { model: answerModel, calls: turns.length, inputTokens: answerInputTokens, outputTokens: conversationTokens },
+                { model: judgeModel, calls: 1, inputTokens: conversationTokens + ESTIMATED_INSTRUCTION_TOKENS, outputTokens: brandCount * ESTIMATED_TOKENS_PER_BRAND },
+            ];
+            if (turns.length > 1) {
+                steps.push({
+                    model: judgeModel,
+                    calls: turns.length,
+                    inputTokens: turns.length * (answerTokens + ESTIMATED_INSTRUCTION_TOKENS),
+                    outputTokens: turns.length * brandCount * ESTIMATED_TOKENS_PER_BRAND,
+                });
+            }
+            if (questionCount > 0) {
+                const calls = batched ? 1 : questionCount;
+                steps.push({
+                    model: judgeModel,
+                    calls,
+                    inputTokens: calls * (conversationTokens + ESTIMATED_INSTRUCTION_TOKENS),
+                    outputTokens: questionCount * ESTIMATED_QUESTION_ANSWER_TOKENS,
+                });
+            }
+            steps.forEach(step => addRecord(totals, {
+                model: step.model,
+                calls: step.calls * samples,
+                inputTokens: step.inputTokens * samples,
+                outputTokens: step.outputTokens * samples,
+            }, priceTable));
+        });
+    });
+    return totals;
+}
+
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');
@@ -0,0 +1,127 @@
+import type { ProviderAdapter, TokenUsage } from '../../types';
+import { errorFromResponse, fetchOrNetworkError, ProviderRequestError } from '../resilientRequest';
+import { chatMessages, readServerSentEvents } from './chatCompletions';
+import { parseJsonContent } from './jsonReply';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+const EXTRACTION_TOOL = 'record_result';
+
+async function anthropicPost(apiKey: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetchOrNetworkError(ANTHROPIC_URL, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Required for calling the API straight from the browser.
+            'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        throw await errorFromResponse(response);
+    }
+    return response;
+}
+
+async function anthropicFetch(apiKey: string, body: object, signal?: AbortSignal) {
+    return (await anthropicPost(apiKey, body, signal)).json();
+}
+
+interface StreamEvent {
+    type: string;
+    message?: { usage?: { input_tokens?: number; output_tokens?: number } }; // message_start
+    delta?: { type?: string; text?: string }; // content_block_delta
+    usage?: { output_tokens?: number }; // message_delta, with the running output count
+    error?: { type?: string; message?: string }; // error
+}
+
+// Reads a Messages API event stream. Input tokens arrive with `message_start`, the final output
+// count with the last `message_delta`.
+async function readMessageStream(response: Response, onText: (text: string) => void, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+    let text = '';
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    await readServerSentEvents<StreamEvent>(response, event => {
+        if (event.type === 'message_start') {
+            usage.inputTokens = event.message?.usage?.input_tokens || 0;
+            usage.outputTokens = event.message?.usage?.output_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            text += event.delta.text || '';
+            onText(text);
+        } else if (event.type === 'message_delta' && event.usage) {
+            usage.outputTokens = event.usage.output_tokens || usage.outputTokens;
+        } else if (event.type === 'error') {
+            // Errors after the response has started arrive in the stream, e.g. when the API is overloaded.
+            throw new ProviderRequestError(`API Error: ${event.error?.message || 'stream error'}`, { transient: event.error?.type === 'overloaded_error' });
+        }
+    });
+    onUsage?.(usage);
+    return text;
+}
+
+const replyText = (data: { content: { type: string; text?: string }[] }): string =>
+    data.content.filter(block => block.type === 'text').map(block => block.text || '').join('');
+
+function reportUsage(data: { usage?: { input_tokens?: number; output_tokens?: number } }, onUsage?: (usage: TokenUsage) => void): void {
+    if (data.usage && onUsage) {
+        onUsage({ inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 });
+    }
+}
+
+export const anthropicProvider: ProviderAdapter<string> = {
+    id: 'anthropic',
+    name: 'Anthropic Claude',
+    shortName: 'Claude',
+    models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+    defaultModel: 'claude-sonnet-4-5',
+    modelLabel: 'Claude Model',
+    modelDescription: 'Select the model for analysis.',
+    credentialFields: [
+        { key: 'anthropic', label: 'Anthropic API Key', placeholder: 'Enter your Anthropic API key', secret: true },
+    ],
+    colors: { positive: '#86efac', neutral: '#d6d3d1', negative: '#fca5a5' },
+    defaultConcurrency: 3,
+    generationLimits: () => ({ temperature: { min: 0, max: 1 }, topP: { min: 0, max: 1 }, maxTokens: { min: 1 } }),
+
+    createClient(apiKeys) {
+        if (!apiKeys.anthropic) throw new Error("Anthropic API Key is missing.");
+        return apiKeys.anthropic;
+    },
+
+    // The API takes no seed, and `max_tokens` is required.
+    async complete(apiKey, { model, prompt, history, system, generation = {}, signal, onUsage, onText }) {
+        const { temperature, topP, maxTokens = MAX_TOKENS } = generation;
+        const body = {
+            model,
+            max_tokens: maxTokens,
+            ...(temperature !== undefined ? { temperature } : {}),
+            ...(topP !== undefined ? { top_p: topP } : {}),
+            ...(system ? { system } : {}),
+            messages: chatMessages(prompt, undefined, history),
+        };
+        if (onText) {
+            return readMessageStream(await anthropicPost(apiKey, { ...body, stream: true }, signal), onText, onUsage);
+        }
+        const data = await anthropicFetch(apiKey, body, signal);
+        reportUsage(data, onUsage);
+        return replyText(data);
+    },
+
+    // Structured output is obtained by forcing a single tool call whose input schema is the requested schema.
+    async extractJson(apiKey, { model, prompt, schema, signal, onUsage }) {
+        const data = await anthropicFetch(apiKey, {
+            model,
+            max_tokens: MAX_TOKENS,
+            messages: [{ role: 'user', content: prompt }],
+            tools: [{ name: EXTRACTION_TOOL, description: 'Record the requested result as structured data.', input_schema: schema }],
+            tool_choice: { type: 'tool', name: EXTRACTION_TOOL },
+        }, signal);
+        reportUsage(data, onUsage);
+        const toolUse = data.content.find((block: { type: string }) => block.type === 'tool_use');
+        // Without the tool call, the reply is parsed like any other model's, so an unusable one can be repaired.
+        return toolUse ? toolUse.input : parseJsonContent(replyText(data));
+    },
+};
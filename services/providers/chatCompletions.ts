@@ -0,0 +1,151 @@
+import type { ChatExchange, Citation, GenerationLimits, GenerationSettings, TokenUsage } from '../../types';
+import { errorFromResponse, fetchOrNetworkError, ProviderRequestError } from '../resilientRequest';
+
+// --- Shared Fetch Helpers for OpenAI-Compatible Chat Completions APIs ---
+
+async function postJson(url: string, headers: Record<string, string>, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetchOrNetworkError(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        throw await errorFromResponse(response);
+    }
+    return response;
+}
+
+// Local servers often run without authentication.
+const bearerHeaders = (apiKey: string | undefined): Record<string, string> => apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+const azureHeaders = (apiKey: string): Record<string, string> => ({ 'api-key': apiKey });
+
+export async function genericAIFetch(url: string, apiKey: string | undefined, body: object, signal?: AbortSignal) {
+    return (await postJson(url, bearerHeaders(apiKey), body, signal)).json();
+}
+
+export async function azureAIFetch(url: string, apiKey: string, body: object, signal?: AbortSignal) {
+    return (await postJson(url, azureHeaders(apiKey), body, signal)).json();
+}
+
+interface ChatUsage {
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// The fields of a streamed chunk read here. Providers add their own, e.g. Perplexity's sources.
+export interface ChatCompletionChunk extends ChatUsage {
+    choices?: { delta?: { content?: string; annotations?: UrlCitationAnnotation[] } }[];
+}
+
+export interface StreamHandlers<TChunk extends ChatCompletionChunk = ChatCompletionChunk> {
+    onText: (text: string) => void; // Receives the whole text received so far after every chunk
+    onUsage?: (usage: TokenUsage) => void;
+    onChunk?: (chunk: TChunk) => void; // Every parsed chunk, for provider-specific fields
+}
+
+// Passes the JSON payload of every `data:` line of a server-sent event stream to `onEvent`, including
+// a last line that has no trailing newline. Payloads that are not JSON, such as `[DONE]` or a garbled
+// keep-alive, are skipped rather than losing the rest of the answer.
+export async function readServerSentEvents<TEvent>(response: Response, onEvent: (event: TEvent) => void): Promise<void> {
+    if (!response.body) throw new ProviderRequestError('The streamed response has no body.');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        let event: TEvent;
+        try {
+            event = JSON.parse(trimmed.slice('data:'.length).trim());
+        } catch {
+            return;
+        }
+        onEvent(event);
+    };
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+    }
+    (buffer + decoder.decode()).split('\n').forEach(handleLine);
+}
+
+// Reads a chat-completions server-sent event stream. Usage is reported once, from the last chunk
+// that carried it.
+async function readChatStream<TChunk extends ChatCompletionChunk>(response: Response, { onText, onUsage, onChunk }: StreamHandlers<TChunk>): Promise<string> {
+    let text = '';
+    let lastUsageChunk: ChatUsage | null = null;
+    await readServerSentEvents<TChunk>(response, chunk => {
+        onChunk?.(chunk);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onText(text);
+        }
+        if (chunk.usage) lastUsageChunk = chunk;
+    });
+    if (lastUsageChunk) reportUsage(lastUsageChunk, onUsage);
+    return text;
+}
+
+export async function genericAIStream<TChunk extends ChatCompletionChunk>(url: string, apiKey: string | undefined, body: object, handlers: StreamHandlers<TChunk>, signal?: AbortSignal): Promise<string> {
+    const response = await postJson(url, bearerHeaders(apiKey), { ...body, stream: true }, signal);
+    return readChatStream(response, handlers);
+}
+
+export async function azureAIStream<TChunk extends ChatCompletionChunk>(url: string, apiKey: string, body: object, handlers: StreamHandlers<TChunk>, signal?: AbortSignal): Promise<string> {
+    const response = await postJson(url, azureHeaders(apiKey), { ...body, stream: true }, signal);
+    return readChatStream(response, handlers);
+}
+
+// The messages for a prompt, preceded by the system prompt when there is one and the earlier turns.
+export const chatMessages = (prompt: string, system?: string, history: ChatExchange[] = []) => [
+    ...(system ? [{ role: 'system', content: system }] : []),
+    ...history.flatMap(exchange => [{ role: 'user', content: exchange.prompt }, { role: 'assistant', content: exchange.response }]),
+    { role: 'user', content: prompt },
+];
+
+// The sampling settings OpenAI-style chat APIs accept. Adapters add a seed where the API takes one.
+export const chatGenerationLimits: GenerationLimits = {
+    temperature: { min: 0, max: 2 },
+    topP: { min: 0, max: 1 },
+    maxTokens: { min: 1 },
+};
+
+// Generation settings as request body fields. Unset settings are left out, so the server defaults apply.
+export function generationParams({ temperature, topP, maxTokens, seed }: GenerationSettings = {}, maxTokensField = 'max_tokens'): Record<string, number> {
+    const params = { temperature, top_p: topP, [maxTokensField]: maxTokens, seed };
+    return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as Record<string, number>;
+}
+
+// Appended to extraction prompts for providers that only support a generic JSON mode.
+export function describeJsonSchema(schema: Record<string, unknown>): string {
+    return `Respond with a single JSON object that matches this JSON Schema: ${JSON.stringify(schema)}`;
+}
+
+// Forwards the `usage` block of a chat-completions response, when the server sends one.
+export function reportUsage(data: ChatUsage, onUsage?: (usage: TokenUsage) => void): void {
+    if (data.usage && onUsage) {
+        onUsage({ inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 });
+    }
+}
+
+export interface UrlCitationAnnotation {
+    type?: string;
+    url_citation?: { url?: string; title?: string };
+}
+
+// Sources from the `url_citation` annotations web-search models add to a message, one per URL.
+export function urlCitations(annotations: UrlCitationAnnotation[] | undefined): Citation[] {
+    const byUrl = new Map<string, Citation>();
+    (annotations || []).forEach(({ type, url_citation }) => {
+        if (type !== 'url_citation' || !url_citation?.url) return;
+        const { url, title } = url_citation;
+        byUrl.set(url, { url, ...(title ? { title } : {}) });
+    });
+    return Array.from(byUrl.values());
+}
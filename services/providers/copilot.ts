@@ -0,0 +1,53 @@
+import type { ProviderAdapter } from '../../types';
+import { azureAIFetch, azureAIStream, describeJsonSchema, reportUsage, chatMessages, generationParams, chatGenerationLimits } from './chatCompletions';
+import { parseJsonContent } from './jsonReply';
+
+const API_VERSION = '2024-10-21'; // The first GA version that reports usage in streams (`stream_options`)
+
+interface AzureClient {
+    key: string;
+    endpoint: string;
+}
+
+const deploymentUrl = (client: AzureClient, model: string) =>
+    `${client.endpoint}/openai/deployments/${model}/chat/completions?api-version=${API_VERSION}`;
+
+export const copilotProvider: ProviderAdapter<AzureClient> = {
+    id: 'copilot',
+    name: 'Copilot / Azure',
+    shortName: 'Copilot',
+    models: [], // Azure deployments are named by the user
+    defaultModel: 'gpt-4o',
+    modelLabel: 'Azure/Copilot Deployment Name',
+    modelDescription: "The 'model' name of your deployment.",
+    credentialFields: [
+        { key: 'copilotEndpoint', label: 'Azure/Copilot Endpoint URL', placeholder: 'e.g., https://your-resource.openai.azure.com', secret: false },
+        { key: 'copilotKey', label: 'Azure/Copilot API Key', placeholder: 'Enter your Azure API key', secret: true },
+    ],
+    colors: { positive: '#60a5fa', neutral: '#a1a1aa', negative: '#f472b6' },
+    defaultConcurrency: 3,
+    generationLimits: () => ({ ...chatGenerationLimits, seed: { min: 0 } }),
+    endpoint: apiKeys => apiKeys.copilotEndpoint,
+
+    createClient(apiKeys) {
+        if (!apiKeys.copilotKey || !apiKeys.copilotEndpoint) throw new Error("Azure/Copilot endpoint or API Key is missing.");
+        return { key: apiKeys.copilotKey, endpoint: apiKeys.copilotEndpoint };
+    },
+
+    async complete(client, { model, prompt, history, system, generation, signal, onUsage, onText }) {
+        const body = { messages: chatMessages(prompt, system, history), ...generationParams(generation) };
+        if (onText) {
+            return azureAIStream(deploymentUrl(client, model), client.key, { ...body, stream_options: { include_usage: true } }, { onText, onUsage }, signal);
+        }
+        const data = await azureAIFetch(deploymentUrl(client, model), client.key, body, signal);
+        reportUsage(data, onUsage);
+        return data.choices[0].message.content;
+    },
+
+    async extractJson(client, { model, prompt, schema, signal, onUsage }) {
+        const content = `${prompt}\n\n${describeJsonSchema(schema)}`;
+        const data = await azureAIFetch(deploymentUrl(client, model), client.key, { messages: [{ role: 'user', content }], response_format: { type: "json_object" } }, signal);
+        reportUsage(data, onUsage);
+        return parseJsonContent(data.choices[0].message.content);
+    },
+};
@@ -0,0 +1,56 @@
+import type { ProviderAdapter } from '../../types';
+import { genericAIFetch, genericAIStream, describeJsonSchema, reportUsage, chatMessages, generationParams, chatGenerationLimits } from './chatCompletions';
+import { parseJsonContent } from './jsonReply';
+
+interface CustomEndpointClient {
+    baseUrl: string;
+    key?: string;
+}
+
+const completionsUrl = (client: CustomEndpointClient) => `${client.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+// Any server speaking the OpenAI chat-completions format: Ollama, vLLM, LM Studio or a local stand-in.
+export const customProvider: ProviderAdapter<CustomEndpointClient> = {
+    id: 'custom',
+    name: 'Custom Endpoint',
+    shortName: 'Custom',
+    models: [],
+    defaultModel: '',
+    modelLabel: 'Custom Endpoint Model',
+    modelDescription: 'The model name is configured in Settings.',
+    modelCredentialKey: 'customModel',
+    credentialFields: [
+        { key: 'customBaseUrl', label: 'Custom Endpoint Base URL', placeholder: 'e.g., http://localhost:11434/v1', secret: false },
+        { key: 'customKey', label: 'Custom Endpoint API Key (optional)', placeholder: 'Leave empty if the server needs no key', secret: true },
+        { key: 'customModel', label: 'Custom Endpoint Model Name', placeholder: 'e.g., llama3.1:8b', secret: false },
+    ],
+    colors: { positive: '#a3e635', neutral: '#94a3b8', negative: '#fb923c' },
+    defaultConcurrency: 1,
+    retryPolicy: { maxAttempts: 2, runBudget: 10 }, // A local server that is down rarely comes back mid-run
+    endpoint: apiKeys => apiKeys.customBaseUrl,
+    generationLimits: () => ({ ...chatGenerationLimits, seed: { min: 0 } }), // Ollama, vLLM and LM Studio accept a seed; other servers ignore it
+
+    createClient(apiKeys) {
+        if (!apiKeys.customBaseUrl) throw new Error("Custom endpoint base URL is missing.");
+        return { baseUrl: apiKeys.customBaseUrl, key: apiKeys.customKey };
+    },
+
+    async complete(client, { model, prompt, history, system, generation, signal, onUsage, onText }) {
+        const body = { model, messages: chatMessages(prompt, system, history), ...generationParams(generation) };
+        if (onText) {
+            // Ollama, vLLM and LM Studio only report usage in a stream when asked to.
+            return genericAIStream(completionsUrl(client), client.key, { ...body, stream_options: { include_usage: true } }, { onText, onUsage }, signal);
+        }
+        const data = await genericAIFetch(completionsUrl(client), client.key, body, signal);
+        reportUsage(data, onUsage);
+        return data.choices[0].message.content;
+    },
+
+    // JSON mode support varies between servers, so the schema is only described in the prompt.
+    async extractJson(client, { model, prompt, schema, signal, onUsage }) {
+        const content = `${prompt}\n\n${describeJsonSchema(schema)}`;
+        const data = await genericAIFetch(completionsUrl(client), client.key, { model, messages: [{ role: 'user', content }] }, signal);
+        reportUsage(data, onUsage);
+        return parseJsonContent(data.choices[0].message.content);
+    },
+};
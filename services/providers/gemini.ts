@@ -0,0 +1,101 @@
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import type { Citation, ProviderAdapter, TokenUsage } from '../../types';
+import { parseJsonContent } from './jsonReply';
+
+// Thinking tokens are billed as output.
+function reportUsage({ usageMetadata }: GenerateContentResponse, onUsage?: (usage: TokenUsage) => void): void {
+    if (usageMetadata && onUsage) {
+        onUsage({
+            inputTokens: usageMetadata.promptTokenCount || 0,
+            outputTokens: (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+        });
+    }
+}
+
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+
+// Grounded answers list their sources as grounding chunks. The URIs are redirects through Google;
+// the chunk title then holds the site's domain.
+function groundingCitations({ candidates }: GenerateContentResponse): Citation[] {
+    const byUrl = new Map<string, Citation>();
+    (candidates?.[0]?.groundingMetadata?.groundingChunks || []).forEach(({ web }) => {
+        if (!web?.uri) return;
+        const isRedirect = web.uri.includes(GROUNDING_REDIRECT_HOST);
+        byUrl.set(web.uri, {
+            url: web.uri,
+            ...(web.title ? { title: web.title } : {}),
+            ...(isRedirect && web.title ? { domain: web.title } : {}),
+        });
+    });
+    return Array.from(byUrl.values());
+}
+
+export const geminiProvider: ProviderAdapter<GoogleGenAI> = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    shortName: 'Gemini',
+    models: ['gemini-2.5-flash'],
+    defaultModel: 'gemini-2.5-flash',
+    modelLabel: 'Gemini Model',
+    modelDescription: 'Select the model for analysis.',
+    credentialFields: [
+        { key: 'gemini', label: 'Google Gemini API Key', placeholder: 'Enter your Gemini API key', secret: true },
+    ],
+    colors: { positive: '#48bb78', neutral: '#a0aec0', negative: '#f56565' },
+    defaultConcurrency: 4,
+    supportsWebSearch: true,
+    generationLimits: () => ({ temperature: { min: 0, max: 2 }, topP: { min: 0, max: 1 }, maxTokens: { min: 1 }, seed: { min: 0 } }),
+
+    createClient(apiKeys) {
+        const apiKey = apiKeys.gemini;
+        if (!apiKey) throw new Error("Google Gemini API Key is missing.");
+        return new GoogleGenAI({ apiKey });
+    },
+
+    async complete(client, { model, prompt, history = [], system, generation = {}, signal, onUsage, onText, onCitations, webSearch }) {
+        const { temperature, topP, maxTokens: maxOutputTokens, seed } = generation;
+        const contents = history.length === 0 ? prompt : [
+            ...history.flatMap(exchange => [
+                { role: 'user', parts: [{ text: exchange.prompt }] },
+                { role: 'model', parts: [{ text: exchange.response }] },
+            ]),
+            { role: 'user', parts: [{ text: prompt }] },
+        ];
+        const config = {
+            abortSignal: signal,
+            temperature,
+            topP,
+            maxOutputTokens,
+            seed,
+            ...(system ? { systemInstruction: system } : {}),
+            ...(webSearch ? { tools: [{ googleSearch: {} }] } : {}),
+        };
+        if (onText) {
+            const stream = await client.models.generateContentStream({ model, contents, config });
+            let text = '';
+            let lastChunk: GenerateContentResponse | undefined;
+            const citations: Citation[] = [];
+            for await (const chunk of stream) {
+                text += chunk.text ?? '';
+                onText(text);
+                citations.push(...groundingCitations(chunk));
+                lastChunk = chunk;
+            }
+            if (lastChunk) reportUsage(lastChunk, onUsage);
+            const unique = Array.from(new Map(citations.map(c => [c.url, c])).values());
+            if (unique.length > 0) onCitations?.(unique);
+            return text;
+        }
+        const result = await client.models.generateContent({ model, contents, config });
+        reportUsage(result, onUsage);
+        const citations = groundingCitations(result);
+        if (citations.length > 0) onCitations?.(citations);
+        return result.text ?? '';
+    },
+
+    async extractJson(client, { model, prompt, schema, signal, onUsage }) {
+        const result = await client.models.generateContent({ model, contents: prompt, config: { responseMimeType: "application/json", responseJsonSchema: schema, abortSignal: signal } });
+        reportUsage(result, onUsage);
+        return parseJsonContent(result.text ?? '');
+    },
+};
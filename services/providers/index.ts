@@ -0,0 +1,110 @@
+import type { ApiKeys, AppConfig, CredentialField, GenerationLimits, GenerationSettings, Provider, ProviderAdapter } from '../../types';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { perplexityProvider } from './perplexity';
+import { copilotProvider } from './copilot';
+import { anthropicProvider } from './anthropic';
+import { customProvider } from './custom';
+
+// --- Provider Registry ---
+// Adding a provider means writing one adapter module and listing it here.
+
+// The registry does not know each adapter's client type. That is safe because a client is only ever
+// passed back to the adapter that created it.
+const register = <TClient>(adapter: ProviderAdapter<TClient>): ProviderAdapter => adapter as ProviderAdapter;
+
+export const providerRegistry: ProviderAdapter[] = [
+    register(geminiProvider),
+    register(openaiProvider),
+    register(perplexityProvider),
+    register(copilotProvider),
+    register(anthropicProvider),
+    register(customProvider),
+];
+
+// --- Web Search Variants ---
+// A provider answering with web search is run as its own entry in `AppConfig.providers`, e.g.
+// 'gemini+web', so its answers are stored and compared next to the plain model's.
+const WEB_SEARCH_SUFFIX = '+web';
+
+export const webSearchVariant = (provider: Provider): Provider => `${provider}${WEB_SEARCH_SUFFIX}`;
+
+export const isWebSearchVariant = (provider: Provider): boolean => provider.endsWith(WEB_SEARCH_SUFFIX);
+
+// The adapter id of a provider entry, without its variant.
+export const baseProvider = (provider: Provider): Provider =>
+    isWebSearchVariant(provider) ? provider.slice(0, -WEB_SEARCH_SUFFIX.length) : provider;
+
+export function getProviderAdapter(provider: Provider): ProviderAdapter {
+    const adapter = providerRegistry.find(p => p.id === baseProvider(provider));
+    if (!adapter) throw new Error(`Unknown provider: ${provider}`);
+    return adapter;
+}
+
+// The adapter's name with the variant, e.g. 'Google Gemini + Web Search'.
+export const getProviderName = (provider: Provider): string =>
+    `${getProviderAdapter(provider).name}${isWebSearchVariant(provider) ? ' + Web Search' : ''}`;
+
+export const getProviderShortLabel = (provider: Provider): string =>
+    `${getProviderAdapter(provider).shortName}${isWebSearchVariant(provider) ? ' +Web' : ''}`;
+
+// All credential fields across providers, in registry order. These are the `profiles` columns.
+export const credentialFields: CredentialField[] = providerRegistry.flatMap(p => p.credentialFields);
+
+export const credentialColumns = credentialFields.map(f => f.key).join(', ');
+
+// Fills in models that are configured in Settings rather than picked in SetupForm.
+export function resolveModels(models: AppConfig['models'], apiKeys: ApiKeys): AppConfig['models'] {
+    const resolved = { ...models };
+    providerRegistry.forEach(p => {
+        if (p.modelCredentialKey && apiKeys[p.modelCredentialKey]) {
+            resolved[p.id] = apiKeys[p.modelCredentialKey];
+        }
+    });
+    return resolved;
+}
+
+// Same as resolveModels, for a judge provider whose model is configured in Settings.
+export function resolveJudge(judge: AppConfig['judge'], apiKeys: ApiKeys): AppConfig['judge'] {
+    if (!judge) return undefined;
+    const { modelCredentialKey } = getProviderAdapter(judge.provider);
+    return modelCredentialKey && apiKeys[modelCredentialKey] ? { ...judge, model: apiKeys[modelCredentialKey]! } : judge;
+}
+
+export const getJudgeDisplayName = (judge: NonNullable<AppConfig['judge']>): string =>
+    `${getProviderAdapter(judge.provider).name} (${judge.model})`;
+
+// The settings a model accepts, each clamped to its allowed range. Unsupported settings are dropped.
+export function limitGenerationSettings(settings: GenerationSettings = {}, limits: GenerationLimits): GenerationSettings {
+    return Object.fromEntries(Object.entries(settings).flatMap(([key, value]) => {
+        const range = limits[key as keyof GenerationSettings];
+        if (!range || value === undefined) return [];
+        return [[key, Math.min(range.max ?? Infinity, Math.max(range.min, value))]];
+    }));
+}
+
+// e.g. 'temperature 0.2, top-p 0.9, max 1024 tokens, seed 42'.
+export function describeGenerationSettings({ temperature, topP, maxTokens, seed }: GenerationSettings = {}): string {
+    const parts = [
+        temperature !== undefined ? `temperature ${temperature}` : '',
+        topP !== undefined ? `top-p ${topP}` : '',
+        maxTokens !== undefined ? `max ${maxTokens} tokens` : '',
+        seed !== undefined ? `seed ${seed}` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'provider defaults';
+}
+
+export const getProviderDisplayName = (provider: Provider, config: AppConfig): string => {
+    const model = config.models[provider];
+    const baseName = getProviderName(provider);
+    return model ? `${baseName} (${model})` : baseName;
+};
+
+export const getProviderShortName = (provider: Provider, config: AppConfig): string => {
+    const model = config.models[provider];
+    const baseName = getProviderShortLabel(provider);
+    if (model && model.length > 10) {
+        return `${baseName} (${model.substring(0,10)}...)`;
+    }
+    return model ? `${baseName} (${model})` : baseName;
+};
@@ -0,0 +1,35 @@
+// --- JSON Replies ---
+// Models without a strict JSON mode wrap their JSON in prose or code fences. Every adapter parses
+// replies through here, so a reply that is not JSON fails the same way for all providers.
+
+// Thrown when a reply does not contain valid JSON. Keeps the reply so it can be sent back for repair.
+export class InvalidJsonError extends Error {
+    content: string;
+
+    constructor(message: string, content: string) {
+        super(message);
+        this.name = 'InvalidJsonError';
+        this.content = content;
+    }
+}
+
+// The JSON in a reply: the whole reply, a ```json code block, or the outermost object or array.
+export function parseJsonContent(content: string): unknown {
+    const candidates = [content.trim()];
+    const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/i);
+    if (fenced) candidates.push(fenced[1].trim());
+    const start = content.search(/[{[]/);
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'));
+    if (start !== -1 && end > start) candidates.push(content.slice(start, end + 1));
+
+    let lastError: unknown;
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch (e) {
+            lastError = e;
+        }
+    }
+    const reason = lastError instanceof Error ? lastError.message : 'no JSON found';
+    throw new InvalidJsonError(`The reply is not valid JSON (${reason}).`, content);
+}
@@ -0,0 +1,86 @@
+import type { Citation, CompletionRequest, ProviderAdapter } from '../../types';
+import { genericAIFetch, genericAIStream, describeJsonSchema, reportUsage, urlCitations, chatMessages, generationParams, chatGenerationLimits, type ChatCompletionChunk, type UrlCitationAnnotation } from './chatCompletions';
+import { parseJsonContent } from './jsonReply';
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_RESPONSES_URL = 'https://api.openai.com/v1/responses';
+
+// The `-search-preview` models only work with Chat Completions, always search the web, and reject
+// the sampling parameters.
+const isSearchPreviewModel = (model: string) => model.endsWith('-search-preview');
+
+interface ResponsesOutputItem {
+    type: string;
+    content?: { type: string; text?: string; annotations?: { type: string; url?: string; title?: string }[] }[];
+}
+
+// Other models only get the web-search tool through the Responses API, which is not streamed here and takes no seed.
+async function completeWithWebSearch(apiKey: string, { model, prompt, history, system, generation, signal, onUsage, onCitations }: CompletionRequest): Promise<string> {
+    const { seed: _seed, ...settings } = generation || {};
+    const body = { model, input: chatMessages(prompt, undefined, history), tools: [{ type: 'web_search' }], ...(system ? { instructions: system } : {}), ...generationParams(settings, 'max_output_tokens') };
+    const data = await genericAIFetch(OPENAI_RESPONSES_URL, apiKey, body, signal);
+    if (data.usage && onUsage) {
+        onUsage({ inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 });
+    }
+    const parts = (data.output as ResponsesOutputItem[] || [])
+        .filter(item => item.type === 'message')
+        .flatMap(item => item.content || [])
+        .filter(part => part.type === 'output_text');
+    const byUrl = new Map<string, Citation>();
+    parts.flatMap(part => part.annotations || []).forEach(({ type, url, title }) => {
+        if (type === 'url_citation' && url) byUrl.set(url, { url, ...(title ? { title } : {}) });
+    });
+    if (byUrl.size > 0) onCitations?.(Array.from(byUrl.values()));
+    return parts.map(part => part.text || '').join('');
+}
+
+export const openaiProvider: ProviderAdapter<string> = {
+    id: 'openai',
+    name: 'OpenAI',
+    shortName: 'OpenAI',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo', 'gpt-4o-mini-search-preview', 'gpt-4o-search-preview'],
+    defaultModel: 'gpt-4o-mini',
+    modelLabel: 'OpenAI Model',
+    modelDescription: 'Select the model for analysis.',
+    credentialFields: [
+        { key: 'openai', label: 'OpenAI API Key', placeholder: 'Enter your OpenAI API key', secret: true },
+    ],
+    colors: { positive: '#34d399', neutral: '#9ca3af', negative: '#f87171' },
+    defaultConcurrency: 4,
+    supportsWebSearch: true,
+    generationLimits: model => isSearchPreviewModel(model) ? { maxTokens: chatGenerationLimits.maxTokens } : { ...chatGenerationLimits, seed: { min: 0 } },
+
+    createClient(apiKeys) {
+        if (!apiKeys.openai) throw new Error("OpenAI API Key is missing.");
+        return apiKeys.openai;
+    },
+
+    // Search models annotate their answers with the pages they cite.
+    async complete(apiKey, request) {
+        const { model, prompt, history, system, generation, signal, onUsage, onText, onCitations, webSearch } = request;
+        if (webSearch && !isSearchPreviewModel(model)) return completeWithWebSearch(apiKey, request);
+        // `max_tokens` is deprecated here and rejected by reasoning models.
+        const settings = isSearchPreviewModel(model) ? { maxTokens: generation?.maxTokens } : generation;
+        const body = { model, messages: chatMessages(prompt, system, history), ...generationParams(settings, 'max_completion_tokens'), ...(webSearch ? { web_search_options: {} } : {}) };
+        if (onText) {
+            const annotations: UrlCitationAnnotation[] = [];
+            const onChunk = (chunk: ChatCompletionChunk) => annotations.push(...(chunk.choices?.[0]?.delta?.annotations || []));
+            const text = await genericAIStream(OPENAI_URL, apiKey, { ...body, stream_options: { include_usage: true } }, { onText, onUsage, onChunk }, signal);
+            const citations = urlCitations(annotations);
+            if (citations.length > 0) onCitations?.(citations);
+            return text;
+        }
+        const data = await genericAIFetch(OPENAI_URL, apiKey, body, signal);
+        reportUsage(data, onUsage);
+        const citations = urlCitations(data.choices[0].message.annotations);
+        if (citations.length > 0) onCitations?.(citations);
+        return data.choices[0].message.content;
+    },
+
+    async extractJson(apiKey, { model, prompt, schema, signal, onUsage }) {
+        const content = `${prompt}\n\n${describeJsonSchema(schema)}`;
+        const data = await genericAIFetch(OPENAI_URL, apiKey, { model, messages: [{ role: 'user', content }], response_format: { type: "json_object" } }, signal);
+        reportUsage(data, onUsage);
+        return parseJsonContent(data.choices[0].message.content);
+    },
+};
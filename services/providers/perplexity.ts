@@ -0,0 +1,64 @@
+import type { Citation, ProviderAdapter } from '../../types';
+import { genericAIFetch, genericAIStream, describeJsonSchema, reportUsage, chatMessages, generationParams, chatGenerationLimits, type ChatCompletionChunk } from './chatCompletions';
+import { parseJsonContent } from './jsonReply';
+
+const PERPLEXITY_URL = 'https://api.perplexity.ai/chat/completions';
+
+interface PerplexitySources {
+    citations?: string[];
+    search_results?: { title?: string; url?: string }[];
+}
+
+// Search results carry titles; `citations` is the plain URL list the answer's [n] markers refer to.
+function reportCitations({ citations, search_results }: PerplexitySources, onCitations?: (citations: Citation[]) => void): void {
+    if (!onCitations) return;
+    const byUrl = new Map<string, Citation>();
+    (citations || []).forEach(url => byUrl.set(url, { url }));
+    (search_results || []).forEach(({ title, url }) => {
+        if (url) byUrl.set(url, { url, ...(title ? { title } : {}) });
+    });
+    if (byUrl.size > 0) onCitations(Array.from(byUrl.values()));
+}
+
+export const perplexityProvider: ProviderAdapter<string> = {
+    id: 'perplexity',
+    name: 'Perplexity',
+    shortName: 'Perplexity',
+    models: ['llama-3-sonar-large-32k-online', 'llama-3-sonar-small-32k-online', 'sonar', 'sonar pro', 'sonar reasoning', 'sonar reasoning pro', 'sonar deep research', 'r1-1776'],
+    defaultModel: 'llama-3-sonar-large-32k-online',
+    modelLabel: 'Perplexity Model',
+    modelDescription: 'Select the model for analysis.',
+    credentialFields: [
+        { key: 'perplexity', label: 'Perplexity API Key', placeholder: 'Enter your Perplexity API key', secret: true },
+    ],
+    colors: { positive: '#2dd4bf', neutral: '#6b7280', negative: '#fb7185' },
+    defaultConcurrency: 2,
+    retryPolicy: { baseDelayMs: 2000 }, // Perplexity rate limits are per minute and tight
+    generationLimits: () => chatGenerationLimits,
+
+    createClient(apiKeys) {
+        if (!apiKeys.perplexity) throw new Error("Perplexity API Key is missing.");
+        return apiKeys.perplexity;
+    },
+
+    async complete(apiKey, { model, prompt, history, system, generation, signal, onUsage, onText, onCitations }) {
+        const body = { model, messages: chatMessages(prompt, system, history), ...generationParams(generation) };
+        if (onText) {
+            // Every chunk repeats the sources found so far.
+            const onChunk = (chunk: ChatCompletionChunk & PerplexitySources) => reportCitations(chunk, onCitations);
+            return genericAIStream(PERPLEXITY_URL, apiKey, body, { onText, onUsage, onChunk }, signal);
+        }
+        const data = await genericAIFetch(PERPLEXITY_URL, apiKey, body, signal);
+        reportUsage(data, onUsage);
+        reportCitations(data, onCitations);
+        return data.choices[0].message.content;
+    },
+
+    // Perplexity has no JSON mode, so the object is requested inside a ```json code block.
+    async extractJson(apiKey, { model, prompt, schema, signal, onUsage }) {
+        const content = `${prompt}\n\n${describeJsonSchema(schema)} Put the JSON object inside a \`\`\`json code block.`;
+        const data = await genericAIFetch(PERPLEXITY_URL, apiKey, { model, messages: [{ role: 'user', content }] }, signal);
+        reportUsage(data, onUsage);
+        return parseJsonContent(data.choices[0].message.content);
+    },
+};
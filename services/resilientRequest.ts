@@ -0,0 +1,131 @@
+// --- Resilient Request Layer ---
+// Retries transient provider failures (rate limits, overloaded or unreachable servers) with
+// exponential backoff and jitter, honours Retry-After, and gives up at once on fatal errors.
+import type { RetryPolicy } from '../types';
+
+export const defaultRetryPolicy: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    runBudget: 50,
+};
+
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+// A rejected key will be rejected for every remaining request of the run.
+const CREDENTIAL_STATUSES = new Set([401, 403]);
+
+export class ProviderRequestError extends Error {
+    status?: number;
+    retryAfterMs?: number;
+    transient: boolean;
+
+    constructor(message: string, options: { status?: number; retryAfterMs?: number; transient?: boolean } = {}) {
+        super(message);
+        this.name = 'ProviderRequestError';
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+        this.transient = options.transient ?? (options.status !== undefined && TRANSIENT_STATUSES.has(options.status));
+    }
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Builds the error for a non-OK response from an OpenAI-style or Anthropic-style API.
+export async function errorFromResponse(response: Response): Promise<ProviderRequestError> {
+    const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
+    return new ProviderRequestError(`API Error (${response.status}): ${errorData.error?.message || response.statusText}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+}
+
+// fetch() rejects with a TypeError when the server cannot be reached; that one is worth retrying.
+export async function fetchOrNetworkError(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(url, init);
+    } catch (e) {
+        if (e instanceof TypeError) throw new ProviderRequestError(`Network error: ${e.message}`, { transient: true });
+        throw e;
+    }
+}
+
+// The messages browsers and Node give a failed fetch, for SDKs that let it through unwrapped.
+const FETCH_FAILURE = /failed to fetch|fetch failed|networkerror|load failed/i;
+
+// Normalises anything thrown by a provider call, including SDK errors that carry an HTTP status.
+export function toProviderRequestError(e: unknown): ProviderRequestError {
+    if (e instanceof ProviderRequestError) return e;
+    const message = e instanceof Error ? e.message : 'An unknown error occurred.';
+    const status = (e as { status?: unknown })?.status;
+    if (typeof status === 'number') return new ProviderRequestError(message, { status });
+    // Other TypeErrors are bugs, such as reading a field of a reply that lacks it, and retrying won't help.
+    if (e instanceof TypeError && FETCH_FAILURE.test(message)) return new ProviderRequestError(message, { transient: true });
+    return new ProviderRequestError(message, { transient: false });
+}
+
+export interface RetryBudget {
+    policy: RetryPolicy;
+    remaining: number;
+    credentialError?: ProviderRequestError; // Set once the provider rejects the credentials
+}
+
+export function createRetryBudget(policy: Partial<RetryPolicy> = {}): RetryBudget {
+    const fullPolicy = { ...defaultRetryPolicy, ...policy };
+    return { policy: fullPolicy, remaining: fullPolicy.runBudget };
+}
+
+export interface RetryEvent {
+    attempt: number; // The attempt about to be made, starting at 2
+    maxAttempts: number;
+    delayMs: number;
+    error: ProviderRequestError;
+}
+
+function backoffDelay(policy: RetryPolicy, failedAttempt: number, error: ProviderRequestError): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (failedAttempt - 1));
+    const jittered = exponential / 2 + Math.random() * exponential / 2;
+    return error.retryAfterMs !== undefined ? Math.max(error.retryAfterMs, jittered) : jittered;
+}
+
+// Resolves after `ms`, or rejects straight away when the run is cancelled.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export async function withRetry<T>(operation: () => Promise<T>, budget: RetryBudget, onRetry?: (event: RetryEvent) => void, signal?: AbortSignal): Promise<T> {
+    const { policy } = budget;
+    for (let attempt = 1; ; attempt++) {
+        if (budget.credentialError) throw budget.credentialError;
+        try {
+            return await operation();
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            const error = toProviderRequestError(e);
+            if (error.status !== undefined && CREDENTIAL_STATUSES.has(error.status)) {
+                budget.credentialError = error;
+            }
+            // Fatal errors are rethrown as they are, so callers can still tell e.g. an unreadable reply apart.
+            if (!error.transient) throw e;
+            if (attempt >= policy.maxAttempts || budget.remaining <= 0) throw error;
+            budget.remaining--;
+            const delayMs = backoffDelay(policy, attempt, error);
+            onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+            await sleep(delayMs, signal);
+        }
+    }
+}
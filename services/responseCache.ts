@@ -0,0 +1,67 @@
+import { supabase } from '../supabase';
+import type { CacheSettings } from '../types';
+
+// --- Response Cache ---
+// Raw provider answers and analysis results are stored under a hash of everything that determines
+// them (provider, model, prompt, parameters). Re-running with a new brand list then reuses the raw
+// answers and only re-runs the analysis, whose prompt contains the brand list.
+//
+// Table:
+//   response_cache (user_id uuid, key text, value jsonb, created_at timestamptz), primary key (user_id, key)
+//
+// Cache failures are logged and treated as misses; they never stop a run.
+
+export const defaultCacheSettings: CacheSettings = { ttlHours: 24 * 7, forceFresh: false };
+
+export interface ResponseCache {
+    get: (key: string) => Promise<unknown | undefined>;
+    set: (key: string, value: unknown) => Promise<void>;
+}
+
+// SHA-256 of the JSON-encoded key parts, as hex.
+export async function cacheKey(parts: Record<string, unknown>): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// With `forceFresh`, nothing is read from the cache but fresh results are still written to it.
+export function createResponseCache(userId: string, { ttlHours, forceFresh }: CacheSettings): ResponseCache {
+    return {
+        async get(key) {
+            if (forceFresh || ttlHours <= 0) return undefined;
+            const oldest = new Date(Date.now() - ttlHours * 3_600_000).toISOString();
+            const { data, error } = await supabase.from('response_cache').select('value')
+                .eq('user_id', userId).eq('key', key).gte('created_at', oldest).maybeSingle();
+            if (error) {
+                console.error('Error reading the response cache:', error);
+                return undefined;
+            }
+            return data?.value;
+        },
+
+        async set(key, value) {
+            if (ttlHours <= 0) return;
+            const { error } = await supabase.from('response_cache')
+                .upsert({ user_id: userId, key, value, created_at: new Date().toISOString() }, { onConflict: 'user_id,key' });
+            if (error) console.error('Error writing the response cache:', error);
+        },
+    };
+}
+
+// Returns the cached value for the key parts, or runs `fetch` and caches its result. `revalidate`
+// checks a cached value before it is used; when it throws, the entry is fetched again and replaced.
+export async function cachedOrFetch<T>(cache: ResponseCache | undefined, parts: Record<string, unknown>, fetch: () => Promise<T>, revalidate: (hit: unknown) => T = hit => hit as T): Promise<{ value: T; cached: boolean }> {
+    if (!cache) return { value: await fetch(), cached: false };
+    const key = await cacheKey(parts);
+    const hit = await cache.get(key);
+    if (hit !== undefined && hit !== null) {
+        try {
+            return { value: revalidate(hit), cached: true };
+        } catch {
+            // Fall through to a fresh fetch.
+        }
+    }
+    const value = await fetch();
+    await cache.set(key, value);
+    return { value, cached: false };
+}
@@ -0,0 +1,80 @@
+import { supabase } from '../supabase';
+import type { AppConfig, InterruptedRun, ProviderResponse } from '../types';
+import { runPrompts } from './personas';
+
+// --- Run Checkpoints ---
+// Every successful ProviderResponse is written to Supabase as soon as it finishes, so a run that is
+// interrupted (page refresh, closed tab, cancel) can be resumed without redoing finished work.
+//
+// Tables:
+//   runs          (id uuid, user_id, created_at, clientName, config jsonb, taskCount int, status text)
+//   run_responses (run_id uuid, prompt_index int, provider text, response jsonb), unique (run_id, prompt_index, provider)
+//
+// `prompt_index` indexes `runPrompts(config)`, i.e. each prompt once per persona.
+
+export type CheckpointKey = string; // `${promptIndex}:${provider}`
+
+export const checkpointKey = (promptIndex: number, provider: string): CheckpointKey => `${promptIndex}:${provider}`;
+
+type StoredConfig = Omit<AppConfig, 'apiKeys'>;
+
+export async function createRunCheckpoint(userId: string, config: AppConfig): Promise<string> {
+    const { apiKeys, ...storedConfig } = config; // Keys never leave the profile
+    const { data, error } = await supabase.from('runs').insert({
+        user_id: userId,
+        clientName: config.clientName,
+        config: storedConfig,
+        taskCount: runPrompts(config).length * config.providers.length,
+        status: 'in_progress',
+    }).select('id').single();
+    if (error) throw error;
+    return data.id;
+}
+
+export async function saveCheckpointResponse(runId: string, promptIndex: number, response: ProviderResponse): Promise<void> {
+    const { error } = await supabase.from('run_responses').upsert({
+        run_id: runId,
+        prompt_index: promptIndex,
+        provider: response.provider,
+        response,
+    }, { onConflict: 'run_id,prompt_index,provider' });
+    if (error) throw error;
+}
+
+export async function completeRunCheckpoint(runId: string): Promise<void> {
+    const { error } = await supabase.from('runs').update({ status: 'completed' }).eq('id', runId);
+    if (error) throw error;
+}
+
+export async function deleteRunCheckpoint(runId: string): Promise<void> {
+    const { error } = await supabase.from('runs').delete().eq('id', runId);
+    if (error) throw error;
+}
+
+export async function fetchInterruptedRuns(userId: string): Promise<InterruptedRun[]> {
+    const { data, error } = await supabase.from('runs')
+        .select('id, created_at, clientName, taskCount, run_responses(count)')
+        .eq('user_id', userId)
+        .eq('status', 'in_progress')
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(r => ({
+        id: r.id,
+        createdAt: r.created_at,
+        clientName: r.clientName,
+        taskCount: r.taskCount,
+        completedCount: (r.run_responses as unknown as { count: number }[])[0]?.count ?? 0,
+    }));
+}
+
+// Loads the stored config and the responses that were already finished.
+export async function loadRunCheckpoint(runId: string): Promise<{ config: StoredConfig; completed: Map<CheckpointKey, ProviderResponse> }> {
+    const { data: run, error: runError } = await supabase.from('runs').select('config').eq('id', runId).single();
+    if (runError) throw runError;
+    const { data: rows, error } = await supabase.from('run_responses').select('prompt_index, provider, response').eq('run_id', runId);
+    if (error) throw error;
+
+    const completed = new Map<CheckpointKey, ProviderResponse>();
+    (rows || []).forEach(row => completed.set(checkpointKey(row.prompt_index, row.provider), row.response));
+    return { config: run.config, completed };
+}
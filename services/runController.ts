@@ -0,0 +1,48 @@
+// --- Run Controller ---
+// Lets the UI pause, resume and cancel a running analysis. Pausing stops new requests from
+// starting (in-flight ones finish); cancelling aborts in-flight requests through the signal.
+
+export interface RunController {
+    signal: AbortSignal;
+    isPaused: () => boolean;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    // Called whenever the run is paused, resumed or cancelled. Returns an unsubscribe function.
+    subscribe: (listener: () => void) => () => void;
+}
+
+export function createRunController(): RunController {
+    const abortController = new AbortController();
+    const listeners = new Set<() => void>();
+    let paused = false;
+
+    const notify = () => listeners.forEach(listener => listener());
+
+    return {
+        signal: abortController.signal,
+        isPaused: () => paused,
+        pause: () => {
+            if (paused || abortController.signal.aborted) return;
+            paused = true;
+            notify();
+        },
+        resume: () => {
+            if (!paused) return;
+            paused = false;
+            notify();
+        },
+        cancel: () => {
+            if (abortController.signal.aborted) return;
+            paused = false;
+            abortController.abort();
+            notify();
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
+
+export const cancelledError = () => new DOMException('The analysis was cancelled.', 'AbortError');
@@ -0,0 +1,82 @@
+import type { ConcurrencySettings, Provider } from '../types';
+import { cancelledError, type RunController } from './runController';
+
+// --- Task Scheduler ---
+// Runs provider calls under an overall and a per-provider concurrency limit. Waiting jobs are
+// started in priority order (lower first, FIFO within a priority), so earlier prompts finish first.
+// While the run is paused nothing new starts; when it is cancelled every waiting job is rejected.
+
+export const defaultConcurrencySettings: ConcurrencySettings = {
+    overall: 6,
+    perProvider: {},
+};
+
+const DEFAULT_PER_PROVIDER_LIMIT = 2;
+
+interface ScheduledJob {
+    provider: Provider;
+    priority: number;
+    sequence: number;
+    start: () => void;
+    cancel: () => void;
+}
+
+export interface TaskScheduler {
+    schedule: <T>(provider: Provider, priority: number, run: () => Promise<T>) => Promise<T>;
+}
+
+export function createTaskScheduler(settings: ConcurrencySettings, controller?: RunController): TaskScheduler {
+    const queue: ScheduledJob[] = [];
+    const runningByProvider: Partial<Record<Provider, number>> = {};
+    let runningTotal = 0;
+    let sequence = 0;
+
+    const providerLimit = (provider: Provider) => Math.max(1, settings.perProvider[provider] ?? DEFAULT_PER_PROVIDER_LIMIT);
+
+    const pump = () => {
+        if (controller?.isPaused() || controller?.signal.aborted) return;
+        while (runningTotal < Math.max(1, settings.overall)) {
+            // The queue is kept sorted, so the first job whose provider has room is the next to run.
+            const index = queue.findIndex(job => (runningByProvider[job.provider] || 0) < providerLimit(job.provider));
+            if (index === -1) return;
+            const [job] = queue.splice(index, 1);
+            runningTotal++;
+            runningByProvider[job.provider] = (runningByProvider[job.provider] || 0) + 1;
+            job.start();
+        }
+    };
+
+    const schedule = <T>(provider: Provider, priority: number, run: () => Promise<T>): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            if (controller?.signal.aborted) {
+                reject(cancelledError());
+                return;
+            }
+            const job: ScheduledJob = {
+                provider,
+                priority,
+                sequence: sequence++,
+                start: () => {
+                    run().then(resolve, reject).finally(() => {
+                        runningTotal--;
+                        runningByProvider[provider] = (runningByProvider[provider] || 1) - 1;
+                        pump();
+                    });
+                },
+                cancel: () => reject(cancelledError()),
+            };
+            const insertAt = queue.findIndex(other => other.priority > priority);
+            queue.splice(insertAt === -1 ? queue.length : insertAt, 0, job);
+            pump();
+        });
+
+    controller?.subscribe(() => {
+        if (controller.signal.aborted) {
+            queue.splice(0).forEach(job => job.cancel());
+        } else {
+            pump();
+        }
+    });
+
+    return { schedule };
+}
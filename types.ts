@@ -1,32 +1,105 @@
-import type { GoogleGenAI } from "@google/genai";
 import type { Session, User } from '@supabase/supabase-js';
 
 export type { Session, User };
 
-export type Provider = 'gemini' | 'openai' | 'perplexity' | 'copilot';
+// Identifier of a registered provider adapter, e.g. 'gemini' (see services/providers).
+export type Provider = string;
 
-export interface ApiKeys {
-  gemini?: string;
-  openai?: string;
-  perplexity?: string;
-  copilotKey?: string;
-  copilotEndpoint?: string;
+// Credential values keyed by each adapter's credential field keys (the `profiles` columns).
+export type ApiKeys = Partial<Record<string, string>>;
+
+export interface ConcurrencySettings {
+  overall: number; // Maximum provider calls in flight across all providers
+  perProvider: Partial<Record<Provider, number>>;
+}
+
+// The provider and model that grade every answer, so all providers are scored by the same standard.
+export interface JudgeSettings {
+  provider: Provider;
+  model: string;
+}
+
+export interface CacheSettings {
+  ttlHours: number; // Cached results older than this are ignored; 0 turns the cache off
+  forceFresh: boolean; // Skip reading the cache, but still store fresh results
+}
+
+// Sampling settings for a provider's answers. Unset values use the provider's defaults.
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number; // Maximum answer length in output tokens
+  seed?: number; // Only sent to models whose generation limits include it
+}
+
+// The generation settings a model accepts and the values allowed for each. Settings left out are
+// not supported: the form does not offer them and they are not sent.
+export type GenerationLimits = Partial<Record<keyof GenerationSettings, { min: number; max?: number }>>;
+
+// A prompt and the follow-up turns asked after it in the same chat.
+export interface PromptScript {
+  prompt: string;
+  followUps: string[]; // Empty for a single question
+  variables?: Record<string, string>; // Template variable values the script was expanded with
+}
+
+// Who is asking: sent as the system prompt of every answer request.
+export interface Persona {
+  name: string; // e.g. 'Dutch procurement manager'
+  systemPrompt: string;
+  language?: string; // Language the answer should be in, e.g. 'Dutch'
+  country?: string; // Where the user is, e.g. 'Netherlands'
 }
 
 export interface AppConfig {
   providers: Provider[];
   apiKeys: ApiKeys;
   models: Partial<Record<Provider, string>>;
+  generation: Partial<Record<Provider, GenerationSettings>>; // Keyed like `models`; applies to answers, not to analysis
+  concurrency: ConcurrencySettings;
+  samplesPerPrompt: number;
+  judge?: JudgeSettings; // When unset, each provider grades its own answers
   clientName: string;
+  clientDomain?: string; // The client's website, to check whether answers cite it
   competitors: string[];
-  prompts: string[];
+  aliases: Partial<Record<string, string[]>>; // Other names and product names, keyed by tracked brand
+  prompts: PromptScript[];
   additionalQuestions: string[];
+  batchAdditionalQuestions: boolean; // Answer all additional questions in one structured request per response
+  priceTable: PriceTable;
+  cache: CacheSettings;
+  personas: Persona[]; // Every prompt is run once per persona; empty runs each prompt once without one
+}
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number;
+}
+
+// Prices keyed by model name (see services/pricing)
+export type PriceTable = Partial<Record<string, ModelPrice>>;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type AnalysisStep = 'answer' | 'analysis' | 'questions';
+
+// Tokens spent on one step of a provider response, summed over its samples and calls.
+export interface UsageRecord extends TokenUsage {
+  step: AnalysisStep;
+  provider: Provider; // The provider that served the calls, e.g. the judge for 'analysis'
+  model: string;
+  calls: number;
 }
 
 export interface BrandAnalysis {
   brandName: string;
   mentions: number;
   sentiment: 'Positive' | 'Neutral' | 'Negative' | 'Not Mentioned';
+  localMentions?: number; // Exact matches in the response text, counted locally (see utils/mentionCounter)
+  rank?: number; // 1-based position among the brands the answer recommends; unset when not mentioned
 }
 
 export interface AdditionalQuestionAnswer {
@@ -34,16 +107,44 @@ export interface AdditionalQuestionAnswer {
   answer: string;
 }
 
-export interface ProviderResponse {
-    provider: Provider;
+// A source an answer is based on, from web search or grounding.
+export interface Citation {
+    url: string;
+    title?: string;
+    domain?: string; // Site the page belongs to, when the URL is a redirect that does not show it
+}
+
+// One exchange of a conversation: a turn's prompt, the answer and that answer's own brand analysis.
+export interface ConversationTurn extends ChatExchange {
+    brandAnalyses: BrandAnalysis[];
+    citations?: Citation[];
+}
+
+// One answer from a provider to a prompt. A prompt is sampled `samplesPerPrompt` times per provider.
+export interface ResponseSample {
     response: string;
     brandAnalyses: BrandAnalysis[];
     additionalAnswers: AdditionalQuestionAnswer[];
     error?: string;
+    fromCache?: AnalysisStep[]; // Steps whose results came from the response cache
+    citations?: Citation[]; // Sources the answer cites, for providers that search the web
+    warnings?: string[]; // Repaired or coerced analysis output
+    // Set for prompts with follow-ups. `response`, `brandAnalyses` and `citations` then cover the
+    // whole conversation: all answers together.
+    turns?: ConversationTurn[];
+}
+
+export interface ProviderResponse {
+    provider: Provider;
+    samples: ResponseSample[];
+    error?: string; // Set when no sample succeeded
+    usage?: UsageRecord[];
 }
 
 export interface AnalysisResult {
   prompt: string;
+  persona?: string; // Name of the persona the prompt was run as
+  variables?: Record<string, string>; // Template variable values the prompt was expanded with
   providerResponses: ProviderResponse[];
 }
 
@@ -52,12 +153,67 @@ export interface SentimentData {
   [key: string]: number | string; // e.g., Positive-gemini: 5
 }
 
-// Add a new interface for the analysis service clients
-export interface LlmClients {
-    gemini: GoogleGenAI | null;
-    openai: string | undefined;
-    perplexity: string | undefined;
-    copilot: { key: string; endpoint: string } | undefined;
+export interface CredentialField {
+    key: string; // Column name in the Supabase `profiles` table
+    label: string;
+    placeholder: string;
+    secret: boolean;
+}
+
+// An earlier exchange in the same chat, sent before the prompt.
+export interface ChatExchange {
+    prompt: string;
+    response: string;
+}
+
+export interface CompletionRequest {
+    model: string;
+    prompt: string;
+    history?: ChatExchange[]; // Earlier turns of the conversation, oldest first
+    system?: string; // System prompt, e.g. a persona
+    generation?: GenerationSettings; // Unset values use the provider's defaults
+    signal?: AbortSignal; // Aborts the request when the run is cancelled
+    onUsage?: (usage: TokenUsage) => void; // Receives the token counts the API reports for the request
+    onText?: (text: string) => void; // When set, the answer is streamed; receives the text received so far
+    onCitations?: (citations: Citation[]) => void; // Receives the sources the answer cites, for providers that search the web
+    webSearch?: boolean; // Answer with live web search / grounding; only for adapters with `supportsWebSearch`
+}
+
+export interface JsonExtractionRequest extends CompletionRequest {
+    schema: Record<string, unknown>; // Plain JSON Schema describing the expected object
+}
+
+export interface RetryPolicy {
+    maxAttempts: number; // Attempts per request, including the first one
+    baseDelayMs: number;
+    maxDelayMs: number;
+    runBudget: number; // Total retries one provider may spend across a whole run
+}
+
+// A provider adapter is everything the service and the UI need to know about one LLM provider.
+export interface ProviderAdapter<TClient = unknown> {
+    id: Provider;
+    name: string; // e.g. 'Google Gemini'
+    shortName: string; // Used in table headers, e.g. 'Gemini'
+    models: string[]; // Model catalog offered in SetupForm; empty means free-text input
+    defaultModel: string;
+    modelLabel: string;
+    modelDescription: string;
+    modelCredentialKey?: string; // When set, the model name comes from this credential field instead of SetupForm
+    credentialFields: CredentialField[];
+    colors: { positive: string; neutral: string; negative: string };
+    retryPolicy?: Partial<RetryPolicy>; // Overrides for the default retry policy
+    defaultConcurrency: number; // Suggested per-provider concurrency limit
+    supportsWebSearch?: boolean; // `complete` honours `webSearch`
+    generationLimits: (model: string) => GenerationLimits; // For the answers `complete` gives
+    // The server the credentials point at, for adapters whose server is configurable. Part of every
+    // cache key, so answers from one server are not reused for another with the same model name.
+    endpoint?: (apiKeys: ApiKeys) => string | undefined;
+    // Builds a client from the stored credentials. Throws if required credentials are missing.
+    createClient: (apiKeys: ApiKeys) => TClient;
+    complete: (client: TClient, request: CompletionRequest) => Promise<string>;
+    // Returns the parsed JSON object produced by the model for the given schema.
+    extractJson: (client: TClient, request: JsonExtractionRequest) => Promise<unknown>;
 }
 
 export interface SavedReport {
@@ -69,9 +225,21 @@ export interface SavedReport {
   user_id?: string;
 }
 
+export interface InterruptedRun {
+  id: string;
+  createdAt: string;
+  clientName: string;
+  taskCount: number;
+  completedCount: number;
+}
+
 export interface Task {
   id: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'error';
+  status: 'pending' | 'in_progress' | 'retrying' | 'completed' | 'error' | 'cancelled';
   error?: string;
+  retries?: number;
+  retryMessage?: string; // Why the last retry happened, e.g. 'API Error (429): ...'
+  liveText?: string[]; // The raw answer as it streams in, one entry per sample
+  warnings?: string[]; // Problems with the models' structured output, e.g. a repaired analysis
 }
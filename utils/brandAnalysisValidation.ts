@@ -0,0 +1,86 @@
+import type { BrandAnalysis } from '../types';
+
+// --- Brand Analysis Validation ---
+// Whatever a judge model returns is checked here before it reaches the tables. Values that can be
+// read unambiguously are coerced ("positive" -> 'Positive', "3" -> 3); entries that cannot are
+// dropped with a warning. A reply without any usable entry is rejected, so it can be repaired.
+
+const SENTIMENTS: Record<string, BrandAnalysis['sentiment']> = {
+    positive: 'Positive',
+    neutral: 'Neutral',
+    mixed: 'Neutral',
+    negative: 'Negative',
+    'not mentioned': 'Not Mentioned',
+    none: 'Not Mentioned',
+    'n/a': 'Not Mentioned',
+};
+
+export class BrandAnalysisValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BrandAnalysisValidationError';
+    }
+}
+
+export interface ValidatedBrandAnalyses {
+    brands: BrandAnalysis[];
+    warnings: string[]; // Coerced and dropped values
+}
+
+// A whole number from a number or a numeric string; undefined for anything else.
+function toCount(value: unknown): number | undefined {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? Math.round(number) : undefined;
+}
+
+function validateEntry(entry: unknown, index: number, warnings: string[]): BrandAnalysis | undefined {
+    if (!entry || typeof entry !== 'object') {
+        warnings.push(`Dropped brand entry ${index + 1}: not an object.`);
+        return undefined;
+    }
+    const { brandName: rawName, mentions: rawMentions, sentiment: rawSentiment, rank: rawRank } = entry as Record<string, unknown>;
+    const brandName = typeof rawName === 'string' ? rawName.trim() : '';
+    if (!brandName) {
+        warnings.push(`Dropped brand entry ${index + 1}: no brand name.`);
+        return undefined;
+    }
+
+    const mentions = toCount(rawMentions);
+    if (mentions === undefined || mentions < 0) {
+        warnings.push(`Dropped "${brandName}": invalid mention count ${JSON.stringify(rawMentions)}.`);
+        return undefined;
+    }
+
+    let sentiment = typeof rawSentiment === 'string' ? SENTIMENTS[rawSentiment.trim().toLowerCase().replace(/[_-]/g, ' ')] : undefined;
+    if (!sentiment) {
+        sentiment = mentions > 0 ? 'Neutral' : 'Not Mentioned';
+        warnings.push(`"${brandName}": unknown sentiment ${JSON.stringify(rawSentiment)}, counted as ${sentiment}.`);
+    }
+    if (sentiment === 'Not Mentioned' && mentions > 0) {
+        warnings.push(`"${brandName}": ${mentions} mentions reported as 'Not Mentioned', counted as 0.`);
+    }
+
+    // Ranks are only kept for mentioned brands, as positive whole numbers.
+    const rank = toCount(rawRank);
+    const isMentioned = sentiment !== 'Not Mentioned' && mentions > 0;
+    return {
+        brandName,
+        mentions: sentiment === 'Not Mentioned' ? 0 : mentions,
+        sentiment,
+        ...(isMentioned && rank !== undefined && rank > 0 ? { rank } : {}),
+    };
+}
+
+// Accepts `{ brands: [...] }` as requested, or a bare array of entries.
+export function validateBrandAnalyses(data: unknown): ValidatedBrandAnalyses {
+    const entries = Array.isArray(data) ? data : (data as { brands?: unknown } | null)?.brands;
+    if (!Array.isArray(entries)) throw new BrandAnalysisValidationError('The reply has no "brands" array.');
+    if (entries.length === 0) throw new BrandAnalysisValidationError('The "brands" array is empty.');
+
+    const warnings: string[] = [];
+    const brands = entries
+        .map((entry, i) => validateEntry(entry, i, warnings))
+        .filter((entry): entry is BrandAnalysis => entry !== undefined);
+    if (brands.length === 0) throw new BrandAnalysisValidationError(`No usable brand entries: ${warnings.join(' ')}`);
+    return { brands, warnings };
+}
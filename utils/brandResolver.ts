@@ -0,0 +1,133 @@
+import type { AppConfig, BrandAnalysis } from '../types';
+
+// --- Brand Entity Resolution ---
+// LLMs name the same company in many ways ("Widen", "Widen Collective", "Acquia DAM"). Every brand
+// name is resolved to one canonical entity: a tracked brand when it matches the brand or one of its
+// aliases, otherwise the first discovered brand it closely resembles.
+
+const FUZZY_THRESHOLD = 0.85;
+const FUZZY_MIN_LENGTH = 4; // Shorter names are too easy to confuse ("Box" vs "Box.")
+
+// Company-form words that do not change which brand is meant.
+const NOISE_WORDS = new Set(['the', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'llc', 'gmbh', 'ag', 'sa', 'plc', 'bv']);
+
+export interface TrackedBrand {
+    name: string;
+    aliases: string[];
+    isClient: boolean;
+}
+
+export interface BrandResolver {
+    // Returns the canonical name for a brand name. Unmatched names become new discovered entities.
+    resolve: (brandName: string) => string;
+    isTracked: (canonicalName: string) => boolean;
+}
+
+export function trackedBrands(config: Pick<AppConfig, 'clientName' | 'competitors' | 'aliases'>): TrackedBrand[] {
+    return [config.clientName, ...config.competitors].map((name, i) => ({
+        name,
+        aliases: config.aliases?.[name] || [],
+        isClient: i === 0,
+    }));
+}
+
+// The brand with its aliases, e.g. `Widen Collective (also known as: Widen, Acquia DAM)`.
+export const describeBrand = ({ name, aliases }: TrackedBrand): string =>
+    aliases.length > 0 ? `${name} (also known as: ${aliases.join(', ')})` : name;
+
+export function normalizeBrandName(brandName: string): string {
+    return brandName
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/['’]s\b/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .split(' ')
+        .filter(word => word && !NOISE_WORDS.has(word))
+        .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 1 for identical strings, 0 for completely different ones.
+function similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+export function createBrandResolver(config: Pick<AppConfig, 'clientName' | 'competitors' | 'aliases'>): BrandResolver {
+    // Normalized name or alias -> canonical name
+    const keys = new Map<string, string>();
+    const tracked = new Set<string>();
+
+    trackedBrands(config).forEach(brand => {
+        tracked.add(brand.name);
+        [brand.name, ...brand.aliases].forEach(name => {
+            const key = normalizeBrandName(name);
+            if (key && !keys.has(key)) keys.set(key, brand.name);
+        });
+    });
+
+    const resolve = (brandName: string): string => {
+        const key = normalizeBrandName(brandName);
+        if (!key) return brandName;
+        const exact = keys.get(key);
+        if (exact) return exact;
+
+        let canonical = brandName.trim();
+        let bestScore = FUZZY_THRESHOLD;
+        if (key.length >= FUZZY_MIN_LENGTH) {
+            for (const [candidate, candidateCanonical] of keys) {
+                if (candidate.length < FUZZY_MIN_LENGTH) continue;
+                const score = similarity(key, candidate);
+                if (score >= bestScore) {
+                    canonical = candidateCanonical;
+                    bestScore = score;
+                }
+            }
+        }
+        keys.set(key, canonical);
+        return canonical;
+    };
+
+    return { resolve, isTracked: canonicalName => tracked.has(canonicalName) };
+}
+
+// Folds analyses that resolve to the same entity into one entry under the canonical name.
+// Mentions are added up; the sentiment comes from the entry with the most mentions, the rank from
+// the best-placed entry.
+export function mergeBrandAnalyses(analyses: BrandAnalysis[], resolver: BrandResolver): BrandAnalysis[] {
+    const merged = new Map<string, { analysis: BrandAnalysis; topMentions: number }>();
+    analyses.forEach(analysis => {
+        if (typeof analysis.brandName !== 'string') return;
+        const brandName = resolver.resolve(analysis.brandName);
+        const mentions = analysis.sentiment === 'Not Mentioned' ? 0 : analysis.mentions;
+        const entry = merged.get(brandName);
+        if (!entry) {
+            merged.set(brandName, { analysis: { ...analysis, brandName, mentions }, topMentions: mentions });
+            return;
+        }
+        const combined: BrandAnalysis = {
+            ...entry.analysis,
+            mentions: entry.analysis.mentions + mentions,
+            sentiment: mentions > entry.topMentions ? analysis.sentiment : entry.analysis.sentiment,
+        };
+        if (entry.analysis.localMentions !== undefined || analysis.localMentions !== undefined) {
+            combined.localMentions = (entry.analysis.localMentions || 0) + (analysis.localMentions || 0);
+        }
+        const ranks = [entry.analysis.rank, analysis.rank].filter((rank): rank is number => rank !== undefined);
+        if (ranks.length > 0) combined.rank = Math.min(...ranks); // The best position of any name
+        merged.set(brandName, { analysis: combined, topMentions: Math.max(entry.topMentions, mentions) });
+    });
+    return Array.from(merged.values()).map(entry => entry.analysis);
+}
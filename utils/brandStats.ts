@@ -0,0 +1,155 @@
+import type { AnalysisResult, AppConfig, BrandAnalysis, Provider, ProviderResponse, ResponseSample } from '../types';
+import { createBrandResolver, mergeBrandAnalyses } from './brandResolver';
+
+// --- Brand Statistics Across Samples ---
+// Each prompt is answered several times per provider, so brand visibility is reported as a rate
+// over samples (with a 95% confidence interval) rather than as a raw count.
+
+const Z_95 = 1.96;
+
+export interface SentimentCounts {
+    P: number;
+    N: number;
+    Nl: number;
+}
+
+export interface BrandProviderStats {
+    samples: number; // Successful samples from this provider, across all prompts
+    mentionedSamples: number; // Samples that mention the brand at least once
+    totalMentions: number;
+    mentionRate: number;
+    mentionRateInterval: [number, number];
+    meanMentions: number; // Mentions per sample
+    meanMentionsInterval: [number, number];
+    sentiment: SentimentCounts;
+    localMentions: number; // Mentions found by the local text matcher
+    mismatchedSamples: number; // Samples where the LLM count differs from the local count
+    rankedSamples: number; // Samples that give the brand a rank
+    meanRank: number | null; // Average position over ranked samples; null when never ranked
+}
+
+export interface BrandStats {
+    brandName: string;
+    isClient: boolean;
+    isKnown: boolean; // Tracked in the setup rather than discovered during analysis
+    byProvider: Partial<Record<Provider, BrandProviderStats>>;
+}
+
+export const successfulSamples = (providerResponse: ProviderResponse): ResponseSample[] =>
+    providerResponse.samples.filter(sample => !sample.error);
+
+// Wilson score interval for a binomial proportion; well-behaved for small samples and 0% / 100%.
+export function wilsonInterval(successes: number, trials: number): [number, number] {
+    if (trials === 0) return [0, 0];
+    const p = successes / trials;
+    const denominator = 1 + Z_95 ** 2 / trials;
+    const centre = (p + Z_95 ** 2 / (2 * trials)) / denominator;
+    const margin = (Z_95 * Math.sqrt(p * (1 - p) / trials + Z_95 ** 2 / (4 * trials ** 2))) / denominator;
+    return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+}
+
+// Normal-approximation interval for a mean; collapses to the mean itself for fewer than two values.
+export function meanInterval(values: number[]): [number, number] {
+    const n = values.length;
+    if (n === 0) return [0, 0];
+    const mean = values.reduce((s, v) => s + v, 0) / n;
+    if (n < 2) return [mean, mean];
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1);
+    const margin = Z_95 * Math.sqrt(variance / n);
+    return [Math.max(0, mean - margin), mean + margin];
+}
+
+export function pooledMentionRate(stats: (BrandProviderStats | undefined)[]): { samples: number; mentionedSamples: number; totalMentions: number; rate: number; interval: [number, number] } {
+    const samples = stats.reduce((s, st) => s + (st?.samples || 0), 0);
+    const mentionedSamples = stats.reduce((s, st) => s + (st?.mentionedSamples || 0), 0);
+    const totalMentions = stats.reduce((s, st) => s + (st?.totalMentions || 0), 0);
+    return {
+        samples,
+        mentionedSamples,
+        totalMentions,
+        rate: samples > 0 ? mentionedSamples / samples : 0,
+        interval: wilsonInterval(mentionedSamples, samples),
+    };
+}
+
+// Average position over ranked samples of several providers, weighted by their ranked samples.
+export function pooledMeanRank(stats: (BrandProviderStats | undefined)[]): number | null {
+    const ranked = stats.filter((st): st is BrandProviderStats => !!st && st.meanRank !== null);
+    const rankedSamples = ranked.reduce((s, st) => s + st.rankedSamples, 0);
+    return rankedSamples > 0 ? ranked.reduce((s, st) => s + st.meanRank! * st.rankedSamples, 0) / rankedSamples : null;
+}
+
+export const formatRank = (rank: number | null): string => rank === null ? '–' : `#${rank.toFixed(1)}`;
+
+export const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+export const formatInterval = ([low, high]: [number, number], format: (value: number) => string): string =>
+    `${format(low)}–${format(high)}`;
+
+export function aggregateBrandStats(results: AnalysisResult[], config: AppConfig): BrandStats[] {
+    const resolver = createBrandResolver(config);
+    const knownBrands = [config.clientName, ...config.competitors];
+
+    // The brand analyses of all successful samples per provider, folded into canonical brands.
+    const samplesByProvider: Partial<Record<Provider, BrandAnalysis[][]>> = {};
+    const brandNames = new Set<string>(knownBrands);
+
+    results.forEach(result => {
+        result.providerResponses.forEach(pResponse => {
+            const analyses = successfulSamples(pResponse).map(sample => mergeBrandAnalyses(sample.brandAnalyses, resolver));
+            (samplesByProvider[pResponse.provider] ??= []).push(...analyses);
+            analyses.forEach(sampleAnalyses => sampleAnalyses.forEach(analysis => brandNames.add(analysis.brandName)));
+        });
+    });
+
+    const stats: BrandStats[] = Array.from(brandNames).map(brandName => {
+        const byProvider: Partial<Record<Provider, BrandProviderStats>> = {};
+        config.providers.forEach(provider => {
+            const samples = samplesByProvider[provider] || [];
+            const sentiment: SentimentCounts = { P: 0, N: 0, Nl: 0 };
+            let localMentions = 0;
+            let mismatchedSamples = 0;
+            const ranks: number[] = [];
+            const mentionsPerSample = samples.map(sampleAnalyses => {
+                const analysis = sampleAnalyses.find(a => a.brandName === brandName);
+                if (!analysis) return 0;
+                if (analysis.sentiment === 'Positive') sentiment.P++;
+                if (analysis.sentiment === 'Negative') sentiment.N++;
+                if (analysis.sentiment === 'Neutral') sentiment.Nl++;
+                const mentions = analysis.sentiment === 'Not Mentioned' ? 0 : analysis.mentions;
+                if (analysis.localMentions !== undefined) {
+                    localMentions += analysis.localMentions;
+                    if (analysis.localMentions !== mentions) mismatchedSamples++;
+                }
+                if (analysis.rank !== undefined) ranks.push(analysis.rank);
+                return mentions;
+            });
+            const mentionedSamples = mentionsPerSample.filter(m => m > 0).length;
+            const totalMentions = mentionsPerSample.reduce((s, m) => s + m, 0);
+            byProvider[provider] = {
+                samples: samples.length,
+                mentionedSamples,
+                totalMentions,
+                mentionRate: samples.length > 0 ? mentionedSamples / samples.length : 0,
+                mentionRateInterval: wilsonInterval(mentionedSamples, samples.length),
+                meanMentions: samples.length > 0 ? totalMentions / samples.length : 0,
+                meanMentionsInterval: meanInterval(mentionsPerSample),
+                sentiment,
+                localMentions,
+                mismatchedSamples,
+                rankedSamples: ranks.length,
+                meanRank: ranks.length > 0 ? ranks.reduce((s, r) => s + r, 0) / ranks.length : null,
+            };
+        });
+        return {
+            brandName,
+            isClient: brandName === config.clientName,
+            isKnown: resolver.isTracked(brandName),
+            byProvider,
+        };
+    });
+
+    const averageRate = (brand: BrandStats) => pooledMentionRate(Object.values(brand.byProvider)).rate;
+    const totalMentions = (brand: BrandStats) => pooledMentionRate(Object.values(brand.byProvider)).totalMentions;
+    return stats.sort((a, b) => averageRate(b) - averageRate(a) || totalMentions(b) - totalMentions(a));
+}
@@ -1,4 +1,12 @@
-import type { AnalysisResult, AppConfig, Provider } from '../types';
+import type { AnalysisResult, AppConfig, Citation } from '../types';
+import { describeGenerationSettings, getJudgeDisplayName, getProviderDisplayName } from '../services/providers';
+import { describeBrand, trackedBrands } from './brandResolver';
+import { formatCost, formatTokens, summarizeUsage } from '../services/pricing';
+import { aggregateBrandStats, formatInterval, formatPercent, formatRank, pooledMeanRank, pooledMentionRate, successfulSamples } from './brandStats';
+import { runPrompts } from '../services/personas';
+import { filterByVariables, runVariables } from './promptTemplates';
+import { computeVisibilityKpis, formatIndex, formatNetSentiment, type VisibilityKpis } from './visibilityKpis';
+import { aggregateSourceStats, findClientDomain, isLinkableUrl, normalizeDomain } from './sourceStats';
 
 const PASTE_API_URL = 'https://dpaste.com/api/';
 
@@ -37,18 +45,6 @@ export async function createHostedReport(htmlContent: string, clientName: string
 }
 
 
-const providerBaseNames: Record<Provider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    perplexity: 'Perplexity',
-    copilot: 'Copilot / Azure'
-};
-
-const getProviderNameWithModel = (provider: Provider, config: AppConfig): string => {
-    const model = config.models[provider];
-    return model ? `${providerBaseNames[provider]} (${model})` : providerBaseNames[provider];
-};
-
 function getStyles(): string {
     return `
 <style>
@@ -75,6 +71,10 @@ function getStyles(): string {
     .sentiment-Not-Mentioned { color: #6b7280; }
     .discovered-label { margin-left: 8px; font-size: 0.75rem; font-weight: 600; color: #facc15; letter-spacing: 0.025em; vertical-align: middle; }
     .error { color: #f87171; font-weight: bold; }
+    .mismatch { color: #facc15; }
+    .cached-label { font-size: 0.75rem; color: #93c5fd; margin: 0.25rem 0; }
+    .sources { font-size: 0.85rem; padding-left: 1.5rem; word-break: break-all; }
+    .sources a { color: #60a5fa; }
 
     /* Accordion Styles */
     .card.accordion-wrapper {
@@ -118,102 +118,108 @@ function escapeHtml(unsafe: string): string {
 }
 
 function generateSummary(results: AnalysisResult[], config: AppConfig): string {
-    const totalMentions = results.flatMap(r => r.providerResponses)
-        .flatMap(pr => pr.brandAnalyses)
-        .filter(ba => ba.brandName.toLowerCase() === config.clientName.toLowerCase())
-        .reduce((sum, ba) => sum + ba.mentions, 0);
+    const clientStats = aggregateBrandStats(results, config).find(b => b.isClient);
+    const usage = summarizeUsage(results, config.priceTable).total;
+    const allSamples = results.flatMap(r => r.providerResponses).flatMap(successfulSamples);
+    const answerCount = allSamples.length;
+    const cachedAnswers = allSamples.filter(sample => sample.fromCache?.includes('answer')).length;
+    const pooled = pooledMentionRate(config.providers.map(p => clientStats?.byProvider[p]));
+    const kpis = computeVisibilityKpis(results, config);
+    const personas = config.personas || [];
+    const runPromptCount = runPrompts(config).length;
+    const variables = runVariables(config);
+    const conversationCount = config.prompts.filter(script => script.followUps.length > 0).length;
+    const kpiRow = (label: string, k: VisibilityKpis) => `
+            <tr>
+                <td>${label}</td>
+                <td style="text-align: right;">${formatIndex(k.visibilityIndex)}</td>
+                <td style="text-align: right;">${formatPercent(k.shareOfVoice)}</td>
+                <td style="text-align: right;">${formatPercent(k.mentionRate)}</td>
+                <td style="text-align: right;">${formatNetSentiment(k.netSentiment)}</td>
+                <td style="text-align: right;">${k.answers}</td>
+            </tr>`;
+
+    // One row per [label, KPIs] pair; labels are HTML.
+    const kpiTable = (labelHeader: string, rows: [string, VisibilityKpis][]) => `
+    <table>
+        <thead>
+            <tr><th>${labelHeader}</th><th style="text-align: right;">Visibility Index</th><th style="text-align: right;">Share of Voice</th><th style="text-align: right;">Mention Rate</th><th style="text-align: right;">Net Sentiment</th><th style="text-align: right;">Answers</th></tr>
+        </thead>
+        <tbody>
+            ${rows.map(([label, k]) => kpiRow(label, k)).join('')}
+        </tbody>
+    </table>`;
 
     return `
 <h2>Executive Summary</h2>
 <div class="card">
     <p>This report details the visibility of the brand "<strong>${escapeHtml(config.clientName)}</strong>" across various Large Language Models (LLMs).</p>
     <ul>
-        <li><strong>Client Brand:</strong> ${escapeHtml(config.clientName)}</li>
-        <li><strong>Competitors Tracked:</strong> ${escapeHtml(config.competitors.join(', ')) || 'None'}</li>
-        <li><strong>LLM Providers Analyzed:</strong> ${config.providers.map(p => escapeHtml(getProviderNameWithModel(p, config))).join(', ')}</li>
-        <li><strong>Total Prompts:</strong> ${config.prompts.length}</li>
-        <li><strong>Total Client Mentions:</strong> ${totalMentions}</li>
+        <li><strong>Client Brand:</strong> ${escapeHtml(describeBrand(trackedBrands(config)[0]))}</li>
+        <li><strong>Competitors Tracked:</strong> ${escapeHtml(trackedBrands(config).filter(b => !b.isClient).map(describeBrand).join('; ')) || 'None'}</li>
+        <li><strong>LLM Providers Analyzed:</strong> ${config.providers.map(p => escapeHtml(getProviderDisplayName(p, config))).join(', ')}</li>
+        <li><strong>Total Prompts:</strong> ${results.length < runPromptCount ? `${results.length} of ${runPromptCount} (partial run)` : runPromptCount}${personas.length > 0 ? ` (${config.prompts.length} prompts &times; ${personas.length} personas)` : ''}</li>
+        ${conversationCount > 0 ? `<li><strong>Conversations:</strong> ${conversationCount} prompts are followed by further turns in the same chat; their analysis covers each turn and the whole conversation</li>` : ''}
+        ${variables.length > 0 ? `<li><strong>Template Variables:</strong> ${variables.map(v => `${escapeHtml(v.name)} (${v.values.map(escapeHtml).join(', ')})`).join('; ')}</li>` : ''}
+        ${personas.length > 0 ? `<li><strong>Personas:</strong> ${personas.map(p => escapeHtml(p.name)).join(', ')}</li>` : ''}
+        <li><strong>Generation Settings:</strong> ${config.providers.map(p => `${escapeHtml(getProviderDisplayName(p, config))}: ${describeGenerationSettings(config.generation?.[p])}`).join('; ')}</li>
+        <li><strong>Judge Model:</strong> ${config.judge ? escapeHtml(getJudgeDisplayName(config.judge)) : 'Each provider graded its own answers'}</li>
+        <li><strong>Samples per Prompt:</strong> ${config.samplesPerPrompt}</li>
+        <li><strong>Client Mention Rate:</strong> ${formatPercent(pooled.rate)} of ${pooled.samples} answers (95% interval ${formatInterval(pooled.interval, formatPercent)})</li>
+        <li><strong>Total Client Mentions:</strong> ${pooled.totalMentions}</li>
+        ${cachedAnswers > 0 ? `<li><strong>Cached Answers:</strong> ${cachedAnswers} of ${answerCount} answers were reused from earlier runs</li>` : ''}
+        ${usage.calls > 0 ? `<li><strong>Run Cost:</strong> ${formatCost(usage.cost)} for ${formatTokens(usage.inputTokens + usage.outputTokens)} tokens in ${formatTokens(usage.calls)} API calls${usage.unpricedModels.length > 0 ? ` (no price set for ${escapeHtml(usage.unpricedModels.join(', '))})` : ''}</li>` : ''}
     </ul>
+    <h3>Visibility KPIs</h3>
+    <p style="font-size: 0.8rem; color: #9ca3af;">Visibility index: 0–100, combining whether the client is mentioned, its rank and its sentiment. Share of voice: the client's share of all mentions of tracked brands. Net sentiment: positive minus negative answers per 100 answers that mention the client.</p>
+    ${kpiTable('Provider', [
+        ...config.providers.filter(p => kpis.byProvider[p]).map((p): [string, VisibilityKpis] => [escapeHtml(getProviderDisplayName(p, config)), kpis.byProvider[p]!]),
+        ['<strong>Overall</strong>', kpis.overall],
+    ])}
+    ${personas.length > 0 ? `
+    <h3>Visibility by Persona</h3>
+    ${kpiTable('Persona', personas.map(p => [escapeHtml(p.name), computeVisibilityKpis(results.filter(r => r.persona === p.name), config).overall]))}` : ''}
+    ${variables.map(({ name, values }) => `
+    <h3>Visibility by ${escapeHtml(name)}</h3>
+    ${kpiTable(escapeHtml(name), values.map(value => [escapeHtml(value), computeVisibilityKpis(filterByVariables(results, { [name]: value }), config).overall]))}`).join('')}
 </div>
 `;
 }
 
 function generateComparativeTables(results: AnalysisResult[], config: AppConfig): string {
-    const allKnownBrands = [config.clientName, ...config.competitors];
-    const knownBrandsLower = new Set(allKnownBrands.map(b => b.toLowerCase()));
-    
-    const mentionsMap = new Map<string, { brandName: string, mentions: Record<string, number> }>();
-    const sentimentMap = new Map<string, { brandName: string, sentiments: Record<string, { P: number, N: number, Nl: number }> }>();
-
-    results.forEach(result => {
-        result.providerResponses.forEach(pResponse => {
-            pResponse.brandAnalyses.forEach(analysis => {
-                if (typeof analysis.brandName === 'string') {
-                    const lowerCaseBrand = analysis.brandName.toLowerCase();
-                    if (!mentionsMap.has(lowerCaseBrand)) {
-                        mentionsMap.set(lowerCaseBrand, { brandName: analysis.brandName, mentions: {} });
-                    }
-                    if (!sentimentMap.has(lowerCaseBrand)) {
-                        sentimentMap.set(lowerCaseBrand, { brandName: analysis.brandName, sentiments: {} });
-                    }
-                    
-                    const mentionEntry = mentionsMap.get(lowerCaseBrand)!;
-                    mentionEntry.mentions[pResponse.provider] = (mentionEntry.mentions[pResponse.provider] || 0) + analysis.mentions;
-
-                    if (analysis.sentiment !== 'Not Mentioned') {
-                        const sentimentEntry = sentimentMap.get(lowerCaseBrand)!;
-                        if (!sentimentEntry.sentiments[pResponse.provider]) {
-                           sentimentEntry.sentiments[pResponse.provider] = { P: 0, N: 0, Nl: 0 };
-                        }
-                        if (analysis.sentiment === 'Positive') sentimentEntry.sentiments[pResponse.provider].P++;
-                        if (analysis.sentiment === 'Negative') sentimentEntry.sentiments[pResponse.provider].N++;
-                        if (analysis.sentiment === 'Neutral') sentimentEntry.sentiments[pResponse.provider].Nl++;
-                    }
-                }
-            });
-        });
-    });
-
-    // Ensure all known brands are in the maps, even if not mentioned
-    allKnownBrands.forEach(brand => {
-        const lowerCaseBrand = brand.toLowerCase();
-        if (!mentionsMap.has(lowerCaseBrand)) {
-           mentionsMap.set(lowerCaseBrand, { brandName: brand, mentions: {} });
-        }
-        if (!sentimentMap.has(lowerCaseBrand)) {
-            sentimentMap.set(lowerCaseBrand, { brandName: brand, sentiments: {} });
-        }
-    });
-
-
-    const brandMentionsData = Array.from(mentionsMap.values()).sort((a, b) => {
-        const totalA = Object.values(a.mentions).reduce((s, c) => s + c, 0);
-        const totalB = Object.values(b.mentions).reduce((s, c) => s + c, 0);
-        return totalB - totalA;
-    });
+    const brandStats = aggregateBrandStats(results, config);
 
     let mentionsTable = `
 <h2>Comparative Brand Mentions</h2>
 <div class="card">
+    <p>Mention rate is the share of sampled answers that mention the brand, with its 95% interval; &mu; is the mean number of mentions per answer. &#9888; marks cells where the LLM's mention count differs from an exact text match. Rank is the brand's average position among the brands an answer recommends (#1 = listed first), over the answers that mention it.</p>
     <table>
         <thead>
             <tr>
                 <th>Brand</th>
-                ${config.providers.map(p => `<th style="text-align: right;">${escapeHtml(getProviderNameWithModel(p, config))}</th>`).join('')}
+                ${config.providers.map(p => `<th style="text-align: right;">${escapeHtml(getProviderDisplayName(p, config))}</th>`).join('')}
+                <th style="text-align: right;">Avg. Rank</th>
             </tr>
         </thead>
         <tbody>
-            ${brandMentionsData.map(d => {
-                const isKnown = knownBrandsLower.has(d.brandName.toLowerCase());
-                return `
-                <tr class="${d.brandName.toLowerCase() === config.clientName.toLowerCase() ? 'client-row' : ''}">
-                    <td class="${d.brandName.toLowerCase() === config.clientName.toLowerCase() ? 'client-name' : ''}">
+            ${brandStats.map(d => `
+                <tr class="${d.isClient ? 'client-row' : ''}">
+                    <td class="${d.isClient ? 'client-name' : ''}">
                         ${escapeHtml(d.brandName)}
-                        ${!isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
+                        ${!d.isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
                     </td>
-                    ${config.providers.map(p => `<td style="text-align: right;">${d.mentions[p] || 0}</td>`).join('')}
+                    ${config.providers.map(p => {
+                        const stats = d.byProvider[p];
+                        if (!stats || stats.samples === 0) return `<td style="text-align: right;">–</td>`;
+                        const mismatch = stats.mismatchedSamples > 0
+                            ? `<br><small class="mismatch" title="The counts differ in ${stats.mismatchedSamples} of ${stats.samples} answers">&#9888; LLM ${stats.totalMentions} / text ${stats.localMentions}</small>`
+                            : '';
+                        const rank = stats.meanRank !== null ? ` &middot; rank ${formatRank(stats.meanRank)}` : '';
+                        return `<td style="text-align: right;">${formatPercent(stats.mentionRate)} (${formatInterval(stats.mentionRateInterval, formatPercent)})<br><small>&mu; ${stats.meanMentions.toFixed(1)}${rank}</small>${mismatch}</td>`;
+                    }).join('')}
+                    <td style="text-align: right;">${formatRank(pooledMeanRank(Object.values(d.byProvider)))}</td>
                 </tr>
-            `}).join('')}
+            `).join('')}
         </tbody>
     </table>
 </div>`;
@@ -225,26 +231,22 @@ function generateComparativeTables(results: AnalysisResult[], config: AppConfig)
         <thead>
             <tr>
                 <th rowspan="2">Brand</th>
-                ${config.providers.map(p => `<th colspan="3" style="text-align: center;">${escapeHtml(getProviderNameWithModel(p, config))}</th>`).join('')}
+                ${config.providers.map(p => `<th colspan="3" style="text-align: center;">${escapeHtml(getProviderDisplayName(p, config))}</th>`).join('')}
             </tr>
             <tr>
                 ${config.providers.map(() => `<th style="text-align: center;">Pos</th><th style="text-align: center;">Neu</th><th style="text-align: center;">Neg</th>`).join('')}
             </tr>
         </thead>
         <tbody>
-            ${brandMentionsData.map(brandData => {
-                const lowerCaseBrand = brandData.brandName.toLowerCase();
-                const sentimentData = sentimentMap.get(lowerCaseBrand);
-                const isKnown = knownBrandsLower.has(lowerCaseBrand);
-
+            ${brandStats.map(brandData => {
                 return `
-                <tr class="${lowerCaseBrand === config.clientName.toLowerCase() ? 'client-row' : ''}">
-                    <td class="${lowerCaseBrand === config.clientName.toLowerCase() ? 'client-name' : ''}">
+                <tr class="${brandData.isClient ? 'client-row' : ''}">
+                    <td class="${brandData.isClient ? 'client-name' : ''}">
                         ${escapeHtml(brandData.brandName)}
-                        ${!isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
+                        ${!brandData.isKnown ? `<span class="discovered-label">(Discovered)</span>` : ''}
                     </td>
                     ${config.providers.map(p => {
-                        const s = sentimentData?.sentiments[p] || { P: 0, Nl: 0, N: 0 };
+                        const s = brandData.byProvider[p]?.sentiment || { P: 0, Nl: 0, N: 0 };
                         return `
                             <td class="sentiment-Positive" style="text-align: center;">${s.P}</td>
                             <td class="sentiment-Neutral" style="text-align: center;">${s.Nl}</td>
@@ -261,6 +263,70 @@ function generateComparativeTables(results: AnalysisResult[], config: AppConfig)
     return mentionsTable + sentimentTable;
 }
 
+function generateUsageTable(results: AnalysisResult[], config: AppConfig): string {
+    const { total, byProvider } = summarizeUsage(results, config.priceTable);
+    if (total.calls === 0) return '';
+    const row = (label: string, usage: typeof total) => `
+            <tr>
+                <td>${label}</td>
+                <td style="text-align: right;">${formatTokens(usage.calls)}</td>
+                <td style="text-align: right;">${formatTokens(usage.inputTokens)}</td>
+                <td style="text-align: right;">${formatTokens(usage.outputTokens)}</td>
+                <td style="text-align: right;">${formatCost(usage.cost)}</td>
+            </tr>`;
+
+    return `
+<h2>Token Usage and Cost</h2>
+<div class="card">
+    <table>
+        <thead>
+            <tr><th>Provider</th><th style="text-align: right;">Calls</th><th style="text-align: right;">Input Tokens</th><th style="text-align: right;">Output Tokens</th><th style="text-align: right;">Cost</th></tr>
+        </thead>
+        <tbody>
+            ${config.providers.filter(p => byProvider[p]).map(p => row(escapeHtml(getProviderDisplayName(p, config)), byProvider[p]!)).join('')}
+            ${row('<strong>Total</strong>', total)}
+        </tbody>
+    </table>
+</div>`;
+}
+
+function generateCitedDomainsTable(results: AnalysisResult[], config: AppConfig): string {
+    const stats = aggregateSourceStats(results, config);
+    if (stats.domains.length === 0) return '';
+    const clientDomain = config.clientDomain ? normalizeDomain(config.clientDomain) : undefined;
+    const client = findClientDomain(stats, config);
+    const clientNote = !clientDomain ? '' : client
+        ? `<p><strong>${escapeHtml(clientDomain)}</strong> is cited in ${client.domain.citedSamples} of ${stats.citingSamples} answers with sources (${formatPercent(client.domain.share)}), rank #${client.rank} of ${stats.domains.length} domains.</p>`
+        : `<p class="mismatch"><strong>${escapeHtml(clientDomain)}</strong> was not cited in any of the ${stats.citingSamples} answers with sources.</p>`;
+
+    return `
+<h2>Top Cited Domains</h2>
+<div class="card">
+    <p style="font-size: 0.8rem; color: #9ca3af;">Share of citation: share of the ${stats.citingSamples} answers with sources that cite the domain, with the brands those answers mention.</p>
+    ${clientNote}
+    <table>
+        <thead>
+            <tr><th>Domain</th><th style="text-align: right;">Share</th><th style="text-align: right;">Answers</th><th style="text-align: right;">Citations</th><th>Brands (answers)</th></tr>
+        </thead>
+        <tbody>
+            ${stats.domains.map(({ domain, citedSamples, share, citations, brands }) => `
+            <tr${domain === clientDomain ? ' class="client-row"' : ''}>
+                <td>${escapeHtml(domain)}</td>
+                <td style="text-align: right;">${formatPercent(share)}</td>
+                <td style="text-align: right;">${citedSamples}</td>
+                <td style="text-align: right;">${citations}</td>
+                <td>${brands.map(({ brandName, samples }) => `${brandName === config.clientName ? `<strong>${escapeHtml(brandName)}</strong>` : escapeHtml(brandName)} (${samples})`).join(', ') || '–'}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>
+</div>`;
+}
+
+const sourceList = (citations: Citation[]): string => `
+                <ol class="sources">
+                    ${citations.map(c => `<li>${isLinkableUrl(c.url) ? `<a href="${escapeHtml(c.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(c.title || c.url)}</a>` : escapeHtml(c.title || c.url)}</li>`).join('')}
+                </ol>`;
+
 function generateIndividualResponses(results: AnalysisResult[], config: AppConfig): string {
     return `
 <h2>Individual Prompt Responses</h2>
@@ -270,31 +336,48 @@ function generateIndividualResponses(results: AnalysisResult[], config: AppConfi
 ${results.map((result, index) => `
 <div class="card accordion-wrapper prompt-card-wrapper">
     <div class="accordion-header">
-        <h4 class="prompt-header-text" style="margin: 0; flex-grow: 1; color: #e5e7eb; font-size: 1.1rem;">Prompt ${index + 1}: <span style="font-weight: normal; font-style: italic; color: #d1d5db;">${escapeHtml(result.prompt)}</span></h4>
+        <h4 class="prompt-header-text" style="margin: 0; flex-grow: 1; color: #e5e7eb; font-size: 1.1rem;">Prompt ${index + 1}${result.persona ? ` as ${escapeHtml(result.persona)}` : ''}: <span style="font-weight: normal; font-style: italic; color: #d1d5db;">${escapeHtml(result.prompt)}</span></h4>
         <span class="indicator">[+]</span>
     </div>
     <div class="accordion-content">
         <div class="response-container">
             ${result.providerResponses.map(pResponse => `
             <div class="provider-response">
-                <h4>${escapeHtml(getProviderNameWithModel(pResponse.provider, config))}</h4>
-                ${pResponse.error ? `<p class="error">Error: ${escapeHtml(pResponse.error)}</p>` : `
+                <h4>${escapeHtml(getProviderDisplayName(pResponse.provider, config))}</h4>
+                ${pResponse.error ? `<p class="error">Error: ${escapeHtml(pResponse.error)}</p>` : pResponse.samples.map((sample, sampleIndex) => `
+                ${pResponse.samples.length > 1 ? `<h5>Sample ${sampleIndex + 1}</h5>` : ''}
+                ${sample.fromCache ? `<p class="cached-label">Cached: ${sample.fromCache.join(', ')}</p>` : ''}
+                ${sample.warnings ? `<p class="mismatch">&#9888; ${sample.warnings.map(escapeHtml).join('<br>&#9888; ')}</p>` : ''}
+                ${sample.error ? `<p class="error">Error: ${escapeHtml(sample.error)}</p>` : `
+                ${sample.turns ? sample.turns.map((turn, turnIndex) => `
+                <h5>Turn ${turnIndex + 1}: <span class="prompt">"${escapeHtml(turn.prompt)}"</span></h5>
+                <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${escapeHtml(turn.response)}</pre></div>
+                ${turn.citations && turn.citations.length > 0 ? sourceList(turn.citations) : ''}
+                <p><strong>Brands in this answer:</strong> ${turn.brandAnalyses.filter(ba => ba.sentiment !== 'Not Mentioned').map(ba => `${ba.rank !== undefined ? `#${ba.rank} ` : ''}${escapeHtml(ba.brandName)} (${ba.mentions}, <span class="sentiment-${ba.sentiment}">${ba.sentiment}</span>)`).join(', ') || 'none'}</p>
+                `).join('') : `
                 <h5>LLM Response</h5>
-                <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${escapeHtml(pResponse.response)}</pre></div>
-                <h5>Brand Analysis</h5>
+                <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${escapeHtml(sample.response)}</pre></div>
+                ${sample.citations && sample.citations.length > 0 ? `
+                <h5>Sources</h5>
+                ${sourceList(sample.citations)}` : ''}
+                `}
+                <h5>${sample.turns ? 'Brand Analysis (whole conversation)' : 'Brand Analysis'}</h5>
                 <table>
-                    <thead><tr><th>Brand</th><th>Mentions</th><th>Sentiment</th></tr></thead>
+                    <thead><tr><th>Brand</th><th>Rank</th><th>Mentions</th><th>Text Matches</th><th>Sentiment</th></tr></thead>
                     <tbody>
-                    ${pResponse.brandAnalyses.map(ba => `
+                    ${sample.brandAnalyses.map(ba => `
                         <tr>
                             <td>${escapeHtml(ba.brandName)}</td>
+                            <td>${ba.rank !== undefined ? `#${ba.rank}` : '–'}</td>
                             <td>${ba.mentions}</td>
+                            <td class="${ba.localMentions !== undefined && ba.localMentions !== ba.mentions ? 'mismatch' : ''}">${ba.localMentions ?? '–'}${ba.localMentions !== undefined && ba.localMentions !== ba.mentions ? ' &#9888;' : ''}</td>
                             <td class="sentiment-${ba.sentiment.replace(' ', '-')}">${ba.sentiment}</td>
                         </tr>
                     `).join('')}
                     </tbody>
                 </table>
                 `}
+                `).join('')}
             </div>
             `).join('')}
         </div>
@@ -321,11 +404,17 @@ ${config.additionalQuestions.map((question, qIndex) => `
         <p><strong>Regarding Prompt:</strong> <span class="prompt">"${escapeHtml(result.prompt)}"</span></p>
         <div class="response-container">
             ${result.providerResponses.map(pResponse => {
-                const answer = pResponse.additionalAnswers.find(a => a.question === question);
+                const samples = successfulSamples(pResponse);
                 return `
                 <div class="provider-response">
-                    <h4>${escapeHtml(getProviderNameWithModel(pResponse.provider, config))}</h4>
+                    <h4>${escapeHtml(getProviderDisplayName(pResponse.provider, config))}</h4>
+                    ${samples.length === 0 ? `<div class="response-content"><pre>No answer available.</pre></div>` : samples.map((sample, sampleIndex) => {
+                        const answer = sample.additionalAnswers.find(a => a.question === question);
+                        return `
+                    ${samples.length > 1 ? `<h5>Sample ${sampleIndex + 1}</h5>` : ''}
                     <div class="response-content"><pre style="white-space: pre-wrap; word-wrap: break-word;">${answer ? escapeHtml(answer.answer) : 'No answer available.'}</pre></div>
+                        `;
+                    }).join('')}
                 </div>
                 `;
             }).join('')}
@@ -442,6 +531,8 @@ document.addEventListener('DOMContentLoaded', function() {
         
         ${generateSummary(results, config)}
         ${generateComparativeTables(results, config)}
+        ${generateCitedDomainsTable(results, config)}
+        ${generateUsageTable(results, config)}
         ${generateIndividualResponses(results, config)}
         ${generateAdditionalQuestions(results, config)}
         
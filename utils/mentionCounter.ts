@@ -0,0 +1,22 @@
+// --- Local Mention Counter ---
+// Counts brand mentions in a response deterministically, as a cross-check for the LLM's own count.
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a name case-insensitively as a whole word. Letters and digits on either side break a
+// match ("Canto" does not match "Cantor"), while punctuation does not, so possessives ("Bynder's",
+// "Bynder’s"), markdown emphasis and hyphenated forms all count. Runs of whitespace inside a
+// multi-word brand match any whitespace, including line breaks. A brand with aliases matches any of
+// its names; longer names are tried first, so "Widen Collective" counts once rather than also as "Widen".
+function brandPattern(names: string[]): RegExp {
+    const bodies = [...names]
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.trim().split(/\s+/).map(escapeRegExp).join('\\s+'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${bodies.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+export function countMentions(text: string, brandNames: string | string[]): number {
+    const names = (Array.isArray(brandNames) ? brandNames : [brandNames]).filter(name => name.trim());
+    if (!text || names.length === 0) return 0;
+    return text.match(brandPattern(names))?.length ?? 0;
+}
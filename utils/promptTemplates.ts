@@ -0,0 +1,67 @@
+import type { AnalysisResult, AppConfig, PromptScript } from '../types';
+
+// --- Prompt Templates ---
+// A prompt like `Best {{category}} for {{segment}}` is expanded to one prompt per combination of its
+// variables' values before the run. Each expanded prompt remembers the values it was made with, so
+// results can be grouped and filtered by them.
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export type VariableValues = Partial<Record<string, string[]>>;
+
+export interface ExpandedPrompts extends Pick<AppConfig, 'prompts'> {
+    missingVariables: string[]; // Used in a template but given no values; left unexpanded
+}
+
+// The variable names a text uses, in order of first use.
+export function templateVariables(text: string): string[] {
+    return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+const fill = (text: string, assignment: Record<string, string>): string =>
+    text.replace(VARIABLE_PATTERN, (placeholder, name: string) => assignment[name] ?? placeholder);
+
+// Every combination of one value per variable.
+function crossProduct(names: string[], values: VariableValues): Record<string, string>[] {
+    return names.reduce<Record<string, string>[]>(
+        (assignments, name) => assignments.flatMap(assignment => (values[name] || []).map(value => ({ ...assignment, [name]: value }))),
+        [{}],
+    );
+}
+
+// Expands each template, and its follow-ups with the same values. Scripts without variables are kept
+// as they are.
+export function expandPromptTemplates(scripts: PromptScript[], values: VariableValues): ExpandedPrompts {
+    const expanded: ExpandedPrompts = { prompts: [], missingVariables: [] };
+    scripts.forEach(({ prompt: template, followUps }) => {
+        const names = templateVariables([template, ...followUps].join('\n'));
+        const missing = names.filter(name => !values[name]?.length);
+        expanded.missingVariables.push(...missing);
+        crossProduct(names.filter(name => !missing.includes(name)), values).forEach(assignment => {
+            expanded.prompts.push({
+                prompt: fill(template, assignment),
+                followUps: followUps.map(turn => fill(turn, assignment)),
+                ...(Object.keys(assignment).length > 0 ? { variables: assignment } : {}),
+            });
+        });
+    });
+    expanded.missingVariables = Array.from(new Set(expanded.missingVariables));
+    return expanded;
+}
+
+// The values each variable took in a run, in the order they were listed.
+export function runVariables(config: Pick<AppConfig, 'prompts'>): { name: string; values: string[] }[] {
+    const byName = new Map<string, string[]>();
+    config.prompts.forEach(({ variables }) => Object.entries(variables || {}).forEach(([name, value]) => {
+        const values = byName.get(name) || [];
+        if (!values.includes(value)) byName.set(name, [...values, value]);
+    }));
+    return Array.from(byName, ([name, values]) => ({ name, values }));
+}
+
+// Results whose prompt was made with every selected value. Empty selections match everything.
+export function filterByVariables(results: AnalysisResult[], selected: Partial<Record<string, string>>): AnalysisResult[] {
+    const active = Object.entries(selected).filter(([, value]) => value);
+    if (active.length === 0) return results;
+    return results.filter(result => active.every(([name, value]) => result.variables?.[name] === value));
+}
@@ -0,0 +1,117 @@
+import type { AnalysisResult, AppConfig, Citation, Provider } from '../types';
+import { createBrandResolver, mergeBrandAnalyses } from './brandResolver';
+import { successfulSamples } from './brandStats';
+
+// --- Cited Sources ---
+// Search-backed providers list the pages an answer is based on. Counting which domains are cited
+// in answers that mention a brand shows which sites drive that brand's visibility.
+
+// Second-level labels under which the registrable domain has three labels (bbc.co.uk).
+const SECOND_LEVEL_SUFFIXES = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ne', 'or']);
+
+// Hosting domains whose subdomains belong to different owners (foo.github.io), so the subdomain is kept.
+const SHARED_HOSTING_SUFFIXES = new Set([
+    'github.io', 'gitlab.io', 'vercel.app', 'netlify.app', 'pages.dev', 'workers.dev', 'herokuapp.com', 'web.app',
+    'firebaseapp.com', 'azurewebsites.net', 'cloudfront.net', 'blogspot.com', 'wordpress.com', 'substack.com',
+    'medium.com', 'tumblr.com', 'wixsite.com', 'webflow.io', 'notion.site', 'fly.dev', 'onrender.com', 'glitch.me',
+]);
+
+export interface DomainStats {
+    domain: string;
+    citedSamples: number; // Answers citing at least one page on the domain
+    share: number; // Share of the answers with sources that cite the domain
+    citations: number;
+    byProvider: Partial<Record<Provider, number>>; // Citing answers per provider
+    brands: { brandName: string; samples: number }[]; // Citing answers that mention the brand, most first
+}
+
+export interface SourceStats {
+    citingSamples: number; // Answers with at least one source
+    citingSamplesByProvider: Partial<Record<Provider, number>>;
+    domains: DomainStats[]; // Most cited first
+}
+
+// The registrable domain of a URL or host name, so that `https://www.example.com/page`,
+// `blog.example.com` and `EXAMPLE.com.` all become `example.com`.
+export function normalizeDomain(urlOrHost: string): string {
+    const trimmed = urlOrHost.trim();
+    let host: string;
+    try {
+        host = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+    } catch {
+        return trimmed.toLowerCase();
+    }
+    host = host.toLowerCase().replace(/\.$/, '');
+    if (/^[\d.]+$/.test(host) || host.includes(':')) return host; // IP addresses
+    const labels = host.split('.');
+    const keep = labels.length > 2 && (SHARED_HOSTING_SUFFIXES.has(labels.slice(-2).join('.'))
+        || (labels[labels.length - 1].length === 2 && SECOND_LEVEL_SUFFIXES.has(labels[labels.length - 2]))) ? 3 : 2;
+    return labels.slice(-keep).join('.');
+}
+
+export const citationDomain = (citation: Citation): string => normalizeDomain(citation.domain || citation.url);
+
+// Citation URLs come from the provider, so only web pages are turned into links; a `javascript:` or
+// `data:` URL is shown as text.
+export function isLinkableUrl(url: string): boolean {
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+export function aggregateSourceStats(results: AnalysisResult[], config: AppConfig): SourceStats {
+    const resolver = createBrandResolver(config);
+    const domains = new Map<string, { citedSamples: number; citations: number; byProvider: Partial<Record<Provider, number>>; brands: Map<string, number> }>();
+    const citingSamplesByProvider: Partial<Record<Provider, number>> = {};
+    let citingSamples = 0;
+
+    results.forEach(result => result.providerResponses.forEach(pResponse => {
+        successfulSamples(pResponse).forEach(sample => {
+            if (!sample.citations || sample.citations.length === 0) return;
+            citingSamples++;
+            citingSamplesByProvider[pResponse.provider] = (citingSamplesByProvider[pResponse.provider] || 0) + 1;
+            const mentioned = mergeBrandAnalyses(sample.brandAnalyses, resolver)
+                .filter(analysis => analysis.mentions > 0)
+                .map(analysis => analysis.brandName);
+            const citationsPerDomain = new Map<string, number>();
+            sample.citations.forEach(citation => {
+                const domain = citationDomain(citation);
+                citationsPerDomain.set(domain, (citationsPerDomain.get(domain) || 0) + 1);
+            });
+            citationsPerDomain.forEach((citations, domain) => {
+                let entry = domains.get(domain);
+                if (!entry) {
+                    entry = { citedSamples: 0, citations: 0, byProvider: {}, brands: new Map() };
+                    domains.set(domain, entry);
+                }
+                entry.citedSamples++;
+                entry.citations += citations;
+                entry.byProvider[pResponse.provider] = (entry.byProvider[pResponse.provider] || 0) + 1;
+                mentioned.forEach(brandName => entry.brands.set(brandName, (entry.brands.get(brandName) || 0) + 1));
+            });
+        });
+    }));
+
+    const domainStats = Array.from(domains, ([domain, entry]) => ({
+        domain,
+        citedSamples: entry.citedSamples,
+        share: citingSamples > 0 ? entry.citedSamples / citingSamples : 0,
+        citations: entry.citations,
+        byProvider: entry.byProvider,
+        brands: Array.from(entry.brands, ([brandName, samples]) => ({ brandName, samples }))
+            .sort((a, b) => b.samples - a.samples || a.brandName.localeCompare(b.brandName)),
+    })).sort((a, b) => b.citedSamples - a.citedSamples || b.citations - a.citations || a.domain.localeCompare(b.domain));
+
+    return { citingSamples, citingSamplesByProvider, domains: domainStats };
+}
+
+// The client's own domain with its rank among cited domains, or undefined when it is never cited.
+export function findClientDomain(stats: SourceStats, config: Pick<AppConfig, 'clientDomain'>): { rank: number; domain: DomainStats } | undefined {
+    if (!config.clientDomain) return undefined;
+    const clientDomain = normalizeDomain(config.clientDomain);
+    const index = stats.domains.findIndex(d => d.domain === clientDomain);
+    return index === -1 ? undefined : { rank: index + 1, domain: stats.domains[index] };
+}
@@ -0,0 +1,85 @@
+import type { AnalysisResult, AppConfig, BrandAnalysis, Provider } from '../types';
+import { createBrandResolver, mergeBrandAnalyses } from './brandResolver';
+import { successfulSamples } from './brandStats';
+
+// --- Client Visibility KPIs ---
+// Headline numbers for the client brand, per provider and pooled over all answers.
+
+// The visibility index scores each answer from 0 to 1 and averages the scores. An answer that does
+// not mention the client scores 0; one that does scores PRESENCE plus shares for rank and sentiment.
+const PRESENCE_WEIGHT = 0.5;
+const RANK_WEIGHT = 0.3; // Times 1 / rank, so #1 earns the full weight and #2 half of it
+const SENTIMENT_WEIGHT = 0.2; // Times 1 for positive, 0.5 for neutral, 0 for negative
+const UNRANKED_SCORE = 0.5; // Rank score for answers analysed before ranks were recorded
+
+const sentimentScores: Record<BrandAnalysis['sentiment'], number> = { Positive: 1, Neutral: 0.5, Negative: 0, 'Not Mentioned': 0 };
+
+export interface VisibilityKpis {
+    answers: number;
+    shareOfVoice: number; // Client mentions / mentions of all tracked brands
+    mentionRate: number; // Share of answers mentioning the client
+    netSentiment: number | null; // (positive - negative) / answers mentioning the client, from -1 to 1
+    visibilityIndex: number; // 0 to 100
+}
+
+interface KpiTotals {
+    answers: number;
+    mentionedAnswers: number;
+    clientMentions: number;
+    trackedMentions: number;
+    positive: number;
+    negative: number;
+    score: number;
+}
+
+const emptyTotals = (): KpiTotals => ({ answers: 0, mentionedAnswers: 0, clientMentions: 0, trackedMentions: 0, positive: 0, negative: 0, score: 0 });
+
+function toKpis(totals: KpiTotals): VisibilityKpis {
+    return {
+        answers: totals.answers,
+        shareOfVoice: totals.trackedMentions > 0 ? totals.clientMentions / totals.trackedMentions : 0,
+        mentionRate: totals.answers > 0 ? totals.mentionedAnswers / totals.answers : 0,
+        netSentiment: totals.mentionedAnswers > 0 ? (totals.positive - totals.negative) / totals.mentionedAnswers : null,
+        visibilityIndex: totals.answers > 0 ? (100 * totals.score) / totals.answers : 0,
+    };
+}
+
+export function computeVisibilityKpis(results: AnalysisResult[], config: AppConfig): { overall: VisibilityKpis; byProvider: Partial<Record<Provider, VisibilityKpis>> } {
+    const resolver = createBrandResolver(config);
+    const overall = emptyTotals();
+    const byProvider: Partial<Record<Provider, KpiTotals>> = {};
+
+    results.forEach(result => result.providerResponses.forEach(pResponse => {
+        successfulSamples(pResponse).forEach(sample => {
+            const analyses = mergeBrandAnalyses(sample.brandAnalyses, resolver);
+            const client = analyses.find(a => a.brandName === config.clientName);
+            const clientMentions = client?.mentions || 0;
+            const trackedMentions = analyses.filter(a => resolver.isTracked(a.brandName)).reduce((s, a) => s + a.mentions, 0);
+            const isMentioned = !!client && clientMentions > 0;
+            const score = isMentioned
+                ? PRESENCE_WEIGHT + RANK_WEIGHT * (client.rank ? 1 / client.rank : UNRANKED_SCORE) + SENTIMENT_WEIGHT * sentimentScores[client.sentiment]
+                : 0;
+
+            [overall, byProvider[pResponse.provider] ??= emptyTotals()].forEach(totals => {
+                totals.answers++;
+                totals.clientMentions += clientMentions;
+                totals.trackedMentions += trackedMentions;
+                totals.score += score;
+                if (!isMentioned) return;
+                totals.mentionedAnswers++;
+                if (client.sentiment === 'Positive') totals.positive++;
+                if (client.sentiment === 'Negative') totals.negative++;
+            });
+        });
+    }));
+
+    return {
+        overall: toKpis(overall),
+        byProvider: Object.fromEntries(Object.entries(byProvider).map(([provider, totals]) => [provider, toKpis(totals!)])),
+    };
+}
+
+export const formatNetSentiment = (value: number | null): string =>
+    value === null ? '–' : `${value > 0 ? '+' : ''}${Math.round(value * 100)}`;
+
+export const formatIndex = (value: number): string => value.toFixed(0);